@@ -0,0 +1,140 @@
+/**
+ * Artifacts — files a job produced, sent to chat after the run.
+ *
+ * A job declares them with glob patterns in `artifacts.paths` (relative to
+ * the agent's workdir), or the agent names them itself with a line
+ *
+ *   ATTACH: reports/week-of-2026-10-19.md
+ *
+ * in its final answer; those lines are taken out of the text that's sent.
+ * With `changedOnly` (the default) a pattern only picks up files created
+ * or modified during the run, so `reports/*.md` sends this week's report
+ * rather than every report so far. Files the agent names are always sent.
+ * Everything must be inside the workdir and under the size limit; what
+ * isn't is listed as skipped instead.
+ */
+
+import { statSync, realpathSync } from "fs";
+import { join, resolve, relative, isAbsolute } from "path";
+import { homedir } from "os";
+import { Glob } from "bun";
+
+// --- Types ---
+export interface ArtifactsConfig {
+  paths?: string[]; // glob patterns, relative to the agent's workdir
+  changedOnly?: boolean; // only files created or changed during the run (default true)
+  maxSizeMb?: number; // per file (default 10 — Discord's upload limit)
+  maxFiles?: number; // per run (default 10)
+}
+
+export type JobArtifacts = string[] | ArtifactsConfig; // a list is shorthand for { paths }
+
+export interface Artifact {
+  path: string; // absolute
+  name: string; // relative to the workdir, as shown in chat
+  size: number;
+}
+
+export const DEFAULT_ARTIFACT_SIZE_MB = 10;
+export const DEFAULT_MAX_ARTIFACTS = 10;
+
+const MARKER_RE = /^[ \t]*ATTACH:[ \t]*(\S.*?)[ \t]*$/gm;
+
+function expandPath(p: string): string {
+  if (p.startsWith("~/")) return join(homedir(), p.slice(2));
+  return resolve(p);
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${+(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+/** Schema check for `paths` — patterns are matched inside the workdir only. */
+export function checkArtifactPattern(value: string): string | undefined {
+  return isAbsolute(value) || value.startsWith("~") || value.split("/").includes("..")
+    ? "must be a pattern relative to the agent's workdir"
+    : undefined;
+}
+
+// --- Markers ---
+
+/** The files an answer names with `ATTACH:` lines, and the answer without them. */
+export function extractMarkers(output: string): { text: string; paths: string[] } {
+  const paths = [...output.matchAll(MARKER_RE)].map((m) => m[1].replace(/^`(.*)`$/, "$1"));
+  if (!paths.length) return { text: output, paths };
+  return { text: output.replace(MARKER_RE, "").replace(/\n{3,}/g, "\n\n").trim(), paths };
+}
+
+// --- Collecting ---
+
+/**
+ * The files to send for a run that started at `since` (ms): matches of
+ * the job's patterns and the `marked` paths, deduplicated, in that order.
+ * `skipped` says why anything was left out.
+ */
+export function collectArtifacts(
+  workdir: string,
+  artifacts: JobArtifacts | undefined,
+  marked: string[],
+  since: number
+): { files: Artifact[]; skipped: string[] } {
+  const config: ArtifactsConfig | undefined = Array.isArray(artifacts) ? { paths: artifacts } : artifacts;
+  const root = expandPath(workdir);
+  const maxBytes = (config?.maxSizeMb ?? DEFAULT_ARTIFACT_SIZE_MB) * 1024 * 1024;
+  const maxFiles = config?.maxFiles ?? DEFAULT_MAX_ARTIFACTS;
+  const changedOnly = config?.changedOnly ?? true;
+  const files: Artifact[] = [];
+  const skipped: string[] = [];
+  const seen = new Set<string>();
+
+  const outside = (rel: string) => rel.startsWith("..") || isAbsolute(rel);
+
+  const add = (name: string, fromPattern: boolean) => {
+    const path = resolve(root, name);
+    const rel = relative(root, path);
+    if (seen.has(path)) return;
+    seen.add(path);
+    if (outside(rel)) {
+      skipped.push(`${name} — outside the agent's workdir`);
+      return;
+    }
+    let stat;
+    try {
+      stat = statSync(path);
+    } catch {
+      skipped.push(`${rel} — not found`);
+      return;
+    }
+    if (outside(relative(realpathSync(root), realpathSync(path)))) {
+      skipped.push(`${rel} — links outside the agent's workdir`);
+    } else if (!stat.isFile()) {
+      skipped.push(`${rel} — not a file`);
+    } else if (fromPattern && changedOnly && stat.mtimeMs < since) {
+      // Unchanged since before the run — not news
+    } else if (stat.size > maxBytes) {
+      skipped.push(`${rel} — ${formatSize(stat.size)} is over the ${formatSize(maxBytes)} limit`);
+    } else if (files.length >= maxFiles) {
+      skipped.push(`${rel} — more than ${maxFiles} files`);
+    } else {
+      files.push({ path, name: rel, size: stat.size });
+    }
+  };
+
+  for (const pattern of config?.paths ?? []) {
+    let matches: string[] = [];
+    try {
+      matches = [...new Glob(pattern).scanSync({ cwd: root, onlyFiles: true })].sort();
+    } catch (err: any) {
+      skipped.push(`${pattern} — ${err.message}`);
+    }
+    for (const name of matches) add(name, true);
+  }
+  for (const name of marked) add(name, false);
+  return { files, skipped };
+}
+
+/** "📎 Not sent: …" lines for the notification, or "". */
+export function describeSkipped(skipped: string[]): string {
+  return skipped.length ? `📎 Not sent:\n${skipped.map((s) => `• ${s}`).join("\n")}` : "";
+}
@@ -0,0 +1,58 @@
+/**
+ * Catch-up — find cron firings that were missed while the daemon was down.
+ *
+ * At startup each job's cron expression is replayed from its `lastRun`
+ * (from the run store) up to now. What happens to the missed firings depends
+ * on the job's `catchUp` policy:
+ * - `none` — skip them (default, same as plain cron)
+ * - `once` — run the job once, however many firings were missed
+ * - `all`  — run once per missed firing, up to `catchUpLimit` (default 5)
+ */
+
+import { CronTime } from "cron";
+
+// --- Types ---
+export type CatchUpPolicy = "none" | "once" | "all";
+
+export const DEFAULT_CATCH_UP_LIMIT = 5;
+
+// Keep only the latest this many firings — a `* * * * *` job down for a
+// week would otherwise mean ten thousand iterations for nothing.
+const MAX_SCAN = 1000;
+
+/**
+ * The latest (up to) `max` firings in (`from`, `to`], oldest first. A span
+ * with more than that is halved and the later half searched first, so the
+ * newest firings are never the ones cut off.
+ */
+function latestFirings(cronTime: CronTime, from: Date, to: Date, max: number): Date[] {
+  const found: Date[] = [];
+  let cursor = from;
+  while (found.length <= max) {
+    const next = cronTime.getNextDateFrom(cursor).toJSDate();
+    if (next > to) return found;
+    found.push(next);
+    cursor = next;
+  }
+
+  const mid = new Date((from.getTime() + to.getTime()) / 2);
+  const later = latestFirings(cronTime, mid, to, max);
+  if (later.length >= max) return later;
+  return [...latestFirings(cronTime, from, mid, max - later.length), ...later];
+}
+
+/** Firings of `schedule` strictly after `since` and up to `now` — the latest MAX_SCAN, oldest first. */
+export function missedFirings(schedule: string, since: Date, now: Date = new Date()): Date[] {
+  return latestFirings(new CronTime(schedule), since, now, MAX_SCAN);
+}
+
+/** The firings to actually run for `policy`, oldest first. */
+export function firingsToCatchUp(
+  policy: CatchUpPolicy,
+  missed: Date[],
+  limit: number = DEFAULT_CATCH_UP_LIMIT
+): Date[] {
+  if (policy === "once") return missed.slice(-1);
+  if (policy === "all") return missed.slice(-limit);
+  return [];
+}
@@ -0,0 +1,12 @@
+/**
+ * Discord channel naming — kept apart from discord.ts so the config
+ * validator can check for clashes without loading discord.js.
+ */
+
+// Scheduler notices (config reloads etc.) go to their own channel
+export const SYSTEM_CHANNEL = "ocalt";
+
+/** The channel an agent's messages go to, e.g. "Research Bot" → "research-bot". */
+export function channelName(agentName: string): string {
+  return agentName.toLowerCase().replace(/[^a-z0-9-]/g, "-");
+}
@@ -2,21 +2,31 @@
  * Discord channel — powered by discord.js
  *
  * Each agent gets its own channel in your server.
- * Messages in #researcher → routed to researcher agent's --continue session.
+ * Messages in #researcher → routed to researcher agent's chat session.
  * Agent output → posted in the agent's channel.
+ * While an agent works, a progress message there is kept up to date (see live.ts).
+ * Files and voice messages posted there are handed to the agent too (see inbox.ts).
  */
 
 import {
   Client,
   GatewayIntentBits,
   ChannelType,
+  MessageFlags,
+  type Message,
   type TextChannel,
   type CategoryChannel,
 } from "discord.js";
-import { execSync } from "child_process";
+import { startChatJob, describeAck } from "../workers.ts";
+import { SYSTEM_CHANNEL, channelName as discordChannelName } from "./discord-names.ts";
+import { handleSessionCommand, CHAT_SESSION } from "../sessions.ts";
+import { countSendFailure, countReconnect } from "../metrics.ts";
+import { handleControlCommand } from "../control.ts";
+import { startLiveProgress, type LiveProgress, type LiveTarget } from "../live.ts";
+import { checkAttachments, attachmentPrompt, type Attachment } from "../inbox.ts";
+import type { Artifact } from "../artifacts.ts";
 import { readFileSync, writeFileSync, existsSync, mkdirSync } from "fs";
-import { join, resolve } from "path";
-import { homedir } from "os";
+import { join, resolve, basename } from "path";
 
 // --- Types ---
 export interface DiscordConfig {
@@ -25,6 +35,7 @@ export interface DiscordConfig {
   categoryName?: string;
   allowedUserIds?: string[];
   enabled?: boolean;
+  progress?: boolean; // live progress messages while agents work (default true)
 }
 
 export interface AgentInfo {
@@ -33,6 +44,7 @@ export interface AgentInfo {
   description?: string;
   allowedTools?: string;
   timeout?: number;
+  killGrace?: number;
 }
 
 type ChannelMap = Record<string, string>; // agent name → channel ID
@@ -41,16 +53,41 @@ type ChannelMap = Record<string, string>; // agent name → channel ID
 const ROOT = resolve(import.meta.dir, "../..");
 const CACHE_FILE = join(ROOT, ".discord-channels.json");
 
-function expandPath(p: string): string {
-  if (p.startsWith("~/")) return join(homedir(), p.slice(2));
-  return resolve(p);
+// --- Routing state (replaced on config reload) ---
+let reverseMap = new Map<string, string>(); // channel ID → agent name
+let agentMap = new Map<string, AgentInfo>();
+
+// Message ID → named session, so replying to a job's report continues it
+const messageSessions = new Map<string, string>();
+const MAX_TRACKED_MESSAGES = 500;
+
+function trackMessage(id: string, session: string) {
+  messageSessions.set(id, session);
+  if (messageSessions.size > MAX_TRACKED_MESSAGES) {
+    messageSessions.delete(messageSessions.keys().next().value!);
+  }
+}
+
+/** Send something, counting failures for /metrics. */
+async function counted<T>(send: () => Promise<T>): Promise<T> {
+  try {
+    return await send();
+  } catch (err) {
+    countSendFailure("discord");
+    throw err;
+  }
 }
 
 // --- Channel management ---
 export async function getOrCreateChannels(
   config: DiscordConfig,
-  agents: AgentInfo[]
+  agentList: AgentInfo[]
 ): Promise<ChannelMap> {
+  const agents = [
+    ...agentList,
+    { name: SYSTEM_CHANNEL, workdir: "", description: "OCALT scheduler notices" },
+  ];
+
   // Try cache first
   try {
     const cached: ChannelMap = JSON.parse(readFileSync(CACHE_FILE, "utf-8"));
@@ -85,7 +122,7 @@ export async function getOrCreateChannels(
 
   // Find or create agent channels
   for (const agent of agents) {
-    const channelName = agent.name.toLowerCase().replace(/[^a-z0-9-]/g, "-");
+    const channelName = discordChannelName(agent.name);
     const existing = channels.find(
       (c) =>
         c?.type === ChannelType.GuildText &&
@@ -120,6 +157,7 @@ export async function sendAgentMessage(
   agentName: string,
   jobName: string,
   text: string,
+  session: string = CHAT_SESSION,
   client?: Client
 ): Promise<string | null> {
   const channelId = channelMap[agentName];
@@ -140,17 +178,23 @@ export async function sendAgentMessage(
 
     let firstId: string | null = null;
     for (const chunk of chunks) {
-      const res = await fetch(url, {
-        method: "POST",
-        headers: {
-          Authorization: `Bot ${config.botToken}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ content: chunk }),
-      });
-      if (res.ok && !firstId) {
+      const res = await counted(() =>
+        fetch(url, {
+          method: "POST",
+          headers: {
+            Authorization: `Bot ${config.botToken}`,
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ content: chunk }),
+        })
+      );
+      if (res.ok) {
         const data = await res.json();
-        firstId = data.id;
+        trackMessage(data.id, session);
+        if (!firstId) firstId = data.id;
+      } else {
+        countSendFailure("discord");
+        console.error(`Discord send error: ${res.status} ${await res.text()}`);
       }
     }
     return firstId;
@@ -169,23 +213,156 @@ export async function sendAgentMessage(
 
   let firstId: string | null = null;
   for (const chunk of chunks) {
-    const msg = await channel.send(chunk);
+    const msg = await counted(() => channel.send(chunk));
+    trackMessage(msg.id, session);
     if (!firstId) firstId = msg.id;
   }
   return firstId;
 }
 
+// --- Outbound: Files a job produced (see artifacts.ts) ---
+const FILES_PER_MESSAGE = 10; // Discord's cap on attachments per message
+
+/** Post `files` as attachments in the agent's channel, over REST like sendAgentMessage. */
+export async function sendFiles(
+  config: DiscordConfig,
+  channelMap: ChannelMap,
+  agentName: string,
+  jobName: string,
+  files: Artifact[],
+  session: string = CHAT_SESSION
+): Promise<void> {
+  const channelId = channelMap[agentName];
+  if (!channelId) {
+    console.error(`No Discord channel for agent: ${agentName}`);
+    return;
+  }
+  const url = `https://discord.com/api/v10/channels/${channelId}/messages`;
+
+  for (let i = 0; i < files.length; i += FILES_PER_MESSAGE) {
+    const batch = files.slice(i, i + FILES_PER_MESSAGE);
+    const form = new FormData();
+    const content = `📎 **${agentName}** — _${jobName}_\n${batch.map((f) => `• ${f.name}`).join("\n")}`;
+    form.append(
+      "payload_json",
+      JSON.stringify({
+        content: content.slice(0, 2000),
+        attachments: batch.map((f, k) => ({ id: k, filename: basename(f.name) })),
+      })
+    );
+    try {
+      batch.forEach((f, k) => form.append(`files[${k}]`, new Blob([readFileSync(f.path)]), basename(f.name)));
+    } catch (err: any) {
+      console.error(`Discord upload error: ${err.message}`);
+      continue;
+    }
+
+    const res = await counted(() =>
+      fetch(url, { method: "POST", headers: { Authorization: `Bot ${config.botToken}` }, body: form })
+    );
+    if (res.ok) {
+      trackMessage((await res.json()).id, session);
+    } else {
+      countSendFailure("discord");
+      console.error(`Discord upload error: ${res.status} ${await res.text()}`);
+    }
+  }
+}
+
+// --- Outbound: Scheduler notices ---
+export async function sendSystemMessage(
+  config: DiscordConfig,
+  channelMap: ChannelMap,
+  title: string,
+  text: string
+): Promise<string | null> {
+  return sendAgentMessage(config, channelMap, SYSTEM_CHANNEL, title, text);
+}
+
+// --- Outbound: Live progress ---
+// Discord allows 5 edits per 5s per channel — keep well under for the other runs sharing it
+const PROGRESS_INTERVAL_MS = 2500;
+const SUPPRESS_NOTIFICATIONS = 1 << 12; // message flag: posted silently
+
+/**
+ * Where live.ts posts progress in `agentName`'s channel, over REST so the
+ * daemon can use it without a client. Undefined if the agent has no channel.
+ */
+export function progressTarget(
+  config: DiscordConfig,
+  channelMap: ChannelMap,
+  agentName: string,
+  session: string = CHAT_SESSION
+): LiveTarget | undefined {
+  const channelId = channelMap[agentName];
+  if (!channelId) return undefined;
+  const url = `https://discord.com/api/v10/channels/${channelId}/messages`;
+  const request = (method: string, path: string, body: any) =>
+    counted(() =>
+      fetch(url + path, {
+        method,
+        headers: { Authorization: `Bot ${config.botToken}`, "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      })
+    );
+
+  return {
+    intervalMs: PROGRESS_INTERVAL_MS,
+    post: async (text) => {
+      const res = await request("POST", "", { content: text.slice(0, 2000), flags: SUPPRESS_NOTIFICATIONS });
+      if (!res.ok) {
+        countSendFailure("discord");
+        console.error(`Discord send error: ${res.status} ${await res.text()}`);
+        return undefined;
+      }
+      const data = await res.json();
+      trackMessage(data.id, session);
+      return data.id;
+    },
+    edit: async (id, text) => {
+      const res = await request("PATCH", `/${id}`, { content: text.slice(0, 2000) });
+      if (res.ok) return 0;
+      if (res.status === 429) {
+        const data = await res.json().catch(() => ({}));
+        return Math.ceil((data.retry_after ?? 5) * 1000);
+      }
+      countSendFailure("discord");
+      console.error(`Discord edit error: ${res.status} ${await res.text()}`);
+      return 0;
+    },
+  };
+}
+
 // --- Inbound: Listen for messages and route to agents ---
+
+/** A message's files, as inbox.ts attachments. */
+function attachmentsOf(message: Message): Attachment[] {
+  const voice = message.flags.has(MessageFlags.IsVoiceMessage);
+  return message.attachments.map((a) => ({
+    kind: voice ? "voice" : a.contentType?.startsWith("image/") ? "image" : "file",
+    name: a.name,
+    mime: a.contentType?.split(";")[0] ?? undefined,
+    size: a.size,
+    duration: a.duration ?? undefined,
+    url: async () => a.url,
+  }));
+}
+
+/** Swap the channel → agent routing (used on config reload). */
+export function setDiscordAgents(channelMap: ChannelMap, agents: AgentInfo[]) {
+  reverseMap = new Map(
+    Object.entries(channelMap).map(([agent, channelId]) => [channelId, agent])
+  );
+  agentMap = new Map(agents.map((a) => [a.name, a]));
+}
+
 export async function startDiscordListener(
   config: DiscordConfig,
   agents: AgentInfo[],
   onResponse?: (agentName: string, response: string) => void
 ) {
   const channelMap = await getOrCreateChannels(config, agents);
-  const reverseMap = new Map(
-    Object.entries(channelMap).map(([agent, channelId]) => [channelId, agent])
-  );
-  const agentMap = new Map(agents.map((a) => [a.name, a]));
+  setDiscordAgents(channelMap, agents);
 
   const client = new Client({
     intents: [
@@ -205,66 +382,107 @@ export async function startDiscordListener(
   });
 
   client.on("messageCreate", async (message) => {
-    // Ignore bots
-    if (message.author.bot) return;
-
-    // Check allowed users
-    if (
-      config.allowedUserIds?.length &&
-      !config.allowedUserIds.includes(message.author.id)
-    ) {
-      return;
-    }
-
-    // Check if message is in an agent channel
-    const agentName = reverseMap.get(message.channelId);
-    if (!agentName) return;
-
-    const agent = agentMap.get(agentName);
-    if (!agent) return;
-
-    console.log(
-      `💬 [${new Date().toLocaleTimeString()}] Discord #${agentName} ← "${message.content.slice(0, 80)}"`
-    );
-
-    // Show typing
-    const channel = message.channel as TextChannel;
-    await channel.sendTyping();
-
-    // Run Claude in the agent's workdir with --continue
-    const workdir = expandPath(agent.workdir);
-    const args = ["-p", message.content, "--continue"];
-    if (agent.allowedTools) {
-      args.push("--allowedTools", agent.allowedTools);
-    }
-
     try {
-      const cmd = `cd '${workdir}' && claude ${args
-        .map((a) => `'${a.replace(/'/g, "'\\''")}'`)
-        .join(" ")}`;
-
-      const output = execSync(cmd, {
-        encoding: "utf-8",
-        timeout: (agent.timeout || 120) * 1000,
-      }).trim();
+      // Ignore bots
+      if (message.author.bot) return;
+
+      // Check allowed users
+      if (
+        config.allowedUserIds?.length &&
+        !config.allowedUserIds.includes(message.author.id)
+      ) {
+        return;
+      }
 
-      const response = output || "(empty response)";
+      // Check if message is in an agent channel
+      const agentName = reverseMap.get(message.channelId);
+      if (!agentName) return;
+
+      // Commands work in agent channels (agent/ prefix optional) and #ocalt
+      const defaultAgent = agentMap.has(agentName) ? agentName : undefined;
+      const commandReply =
+        handleSessionCommand(message.content, defaultAgent) ??
+        (await handleControlCommand(message.content, defaultAgent));
+      if (commandReply) {
+        await counted(() => message.reply(commandReply.slice(0, 2000)));
+        return;
+      }
 
-      // Send response in chunks
-      const chunks: string[] = [];
-      for (let i = 0; i < response.length; i += 2000) {
-        chunks.push(response.slice(i, i + 2000));
+      const agent = agentMap.get(agentName);
+      if (!agent) return;
+      const attachments = attachmentsOf(message);
+
+      // Replies continue the session of the message replied to; "#name text"
+      // (or "@agent#name text") addresses a named session, anything else "chat"
+      let session = CHAT_SESSION;
+      let prompt = message.content;
+      const replyTo = message.reference?.messageId;
+      const named = prompt.match(/^(?:@[\w-]+)?#([\w.-]+)(?:\s+(.*))?$/s);
+      if (replyTo && messageSessions.has(replyTo)) {
+        session = messageSessions.get(replyTo)!;
+      } else if (named && (named[2] || attachments.length)) {
+        session = named[1];
+        prompt = named[2] ?? "";
       }
-      for (const chunk of chunks) {
-        await channel.send(chunk);
+
+      // Attachments the agent can't have are reported now; the rest are
+      // downloaded when the reply starts
+      const { accepted, rejected } = checkAttachments(attachments);
+      if (rejected.length) {
+        const list = rejected.map((r) => `• ${r}`).join("\n");
+        await counted(() => message.reply(`⚠️ Not passed on:\n${list}`.slice(0, 2000)));
       }
+      // A caption whose files were all refused would reach the agent without them
+      if (!accepted.length && (rejected.length || !prompt.trim())) return;
+
+      const files = accepted.length ? ` + ${accepted.length} attachment(s)` : "";
+      console.log(
+        `💬 [${new Date().toLocaleTimeString()}] Discord ${agentName}#${session} ← "${prompt.slice(0, 80)}"${files}`
+      );
+
+      // Hand off to a chat worker so this handler returns right away
+      const channel = message.channel as TextChannel;
+      let live: LiveProgress | undefined;
+      const input = accepted.length ? () => attachmentPrompt(agent.workdir, prompt, accepted) : prompt;
+      const job = startChatJob(agent, "discord", session, input, {
+        onStart: async (job) => {
+          const target =
+            config.progress !== false &&
+            progressTarget(config, { [agentName]: message.channelId }, agentName, session);
+          // Best-effort — a failed typing indicator mustn't lose the reply
+          if (!target) return void (await channel.sendTyping().catch(() => {}));
+          live = startLiveProgress(`${agentName} — reply #${job.id}`, [target]);
+        },
+        onProgress: (_, line) => live?.feed(line),
+        onDone: async (job, response) => {
+          await live?.finish("✅ done");
+          // Send response in chunks
+          const chunks: string[] = [];
+          for (let i = 0; i < response.length; i += 2000) {
+            chunks.push(response.slice(i, i + 2000));
+          }
+          for (const chunk of chunks) {
+            const sent = await counted(() => channel.send(chunk));
+            trackMessage(sent.id, session);
+          }
+
+          if (onResponse) onResponse(agentName, response);
+        },
+        onError: async (job, errorMessage) => {
+          await live?.finish("❌ failed");
+          await counted(() => channel.send(`⚠️ #${job.id} error: ${errorMessage.slice(0, 500)}`));
+        },
+      });
 
-      if (onResponse) onResponse(agentName, response);
-    } catch (err: any) {
-      await channel.send(`⚠️ Error: ${err.message?.slice(0, 500)}`);
+      const ack = await counted(() => message.reply(describeAck(job)));
+      trackMessage(ack.id, session);
+    } catch (err) {
+      // A failed reply or ack mustn't become an unhandled rejection
+      console.error("Discord message error:", err);
     }
   });
 
-  // Auto-reconnect is built into discord.js
+  // Auto-reconnect is built into discord.js — count the reconnects for /metrics
+  client.on("shardReconnecting", () => countReconnect("discord"));
   await client.login(config.botToken);
 }
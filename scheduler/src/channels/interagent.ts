@@ -16,7 +16,11 @@
  *    Good for: "hey developer, I found a bug" → runs developer with that context.
  */
 
-import { execSync } from "child_process";
+import { runCommand, describeFailure } from "../process.ts";
+import { parseReply, finishCommandRun } from "../workers.ts";
+import { startRun } from "../store.ts";
+import { resumeArgs, recordSession, CHAT_SESSION } from "../sessions.ts";
+import { submit } from "../queue.ts";
 import { readFileSync, writeFileSync, existsSync, mkdirSync, readdirSync } from "fs";
 import { join, resolve } from "path";
 import { homedir } from "os";
@@ -27,6 +31,7 @@ export interface AgentInfo {
   workdir: string;
   allowedTools?: string;
   timeout?: number;
+  killGrace?: number;
 }
 
 export interface InteragentConfig {
@@ -136,35 +141,62 @@ export function buildSharedContext(
 }
 
 /**
- * Dispatch a message directly to another agent's session.
- * Runs claude --continue in the target agent's workdir.
+ * Dispatch a message directly to another agent's chat session.
+ * Resumes that session in the target agent's workdir, queued behind
+ * whatever that agent is already running; a run that exceeds the agent's
+ * timeout is stopped along with its whole process tree.
  */
-export function dispatchToAgent(
+export async function dispatchToAgent(
   targetAgent: AgentInfo,
   fromAgent: string,
   message: string
-): string {
+): Promise<string> {
   const workdir = expandPath(targetAgent.workdir);
   const prefixedMessage = `[Message from ${fromAgent}]: ${message}`;
 
-  const args = ["-p", prefixedMessage, "--continue"];
-  if (targetAgent.allowedTools) {
-    args.push("--allowedTools", targetAgent.allowedTools);
-  }
-
-  const cmd = `cd '${workdir}' && claude ${args
-    .map((a) => `'${a.replace(/'/g, "'\\''")}'`)
-    .join(" ")}`;
-
-  try {
-    const output = execSync(cmd, {
-      encoding: "utf-8",
-      timeout: (targetAgent.timeout || 120) * 1000,
-    }).trim();
-    return output || "(empty response)";
-  } catch (err: any) {
-    return `Error: ${err.message?.slice(0, 500)}`;
-  }
+  const timeoutSec = targetAgent.timeout || 120;
+  let response = "";
+  await submit(targetAgent.name, {
+    label: `dispatch from ${fromAgent}`,
+    source: "dispatch",
+    run: async (signal) => {
+      const args = [
+        "-p",
+        prefixedMessage,
+        "--output-format",
+        "json",
+        ...resumeArgs(targetAgent.name, CHAT_SESSION),
+      ];
+      if (targetAgent.allowedTools) {
+        args.push("--allowedTools", targetAgent.allowedTools);
+      }
+      const cmd = `claude ${args
+        .map((a) => `'${a.replace(/'/g, "'\\''")}'`)
+        .join(" ")}`;
+
+      const runId = startRun({
+        agent: targetAgent.name,
+        job: `dispatch from ${fromAgent}`,
+        source: "dispatch",
+        session: CHAT_SESSION,
+      });
+      const startTime = Date.now();
+      const result = await runCommand(cmd, {
+        cwd: workdir,
+        timeoutMs: timeoutSec * 1000,
+        graceMs: targetAgent.killGrace !== undefined ? targetAgent.killGrace * 1000 : undefined,
+        signal,
+      });
+      const reply = parseReply(result.stdout);
+      if (reply?.sessionId) recordSession(targetAgent.name, CHAT_SESSION, reply.sessionId);
+      finishCommandRun(runId, startTime, result, reply, timeoutSec, signal);
+      response =
+        result.timedOut || result.cancelled || result.exitCode !== 0
+          ? `Error: ${describeFailure(result, timeoutSec).slice(0, 500)}`
+          : (reply ? reply.text : result.stdout) || "(empty response)";
+    },
+  });
+  return response;
 }
 
 /**
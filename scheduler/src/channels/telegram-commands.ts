@@ -0,0 +1,298 @@
+/**
+ * Telegram bot commands — status and control from the chat.
+ *
+ *   /status [agent]          jobs, last runs and next run times
+ *   /run [agent[/job]]       run a job now
+ *   /cancel [agent[/job]]    stop the running job and drop queued runs
+ *   /logs [agent[/job]]      the tail of the job's latest log
+ *   /pause, /resume [target] skip scheduled runs / run them again
+ *   /new [agent]             start the agent's chat over in a fresh session
+ *   /agents                  the agents and what they're doing
+ *
+ * Leave the target out and it's picked with inline keyboard buttons. A
+ * button's callback data is the command it stands for ("run researcher"),
+ * so a press goes through the same code as typing it. This module decides
+ * what the replies say; telegram.ts sends them (or edits the message whose
+ * button was pressed).
+ */
+
+import { readFileSync } from "fs";
+import { chatControl, formatReply } from "../control.ts";
+import { jobSummary, statusEmoji } from "../store.ts";
+import { resetSession, CHAT_SESSION, SESSION_COMMAND_HELP } from "../sessions.ts";
+import { formatSpan } from "../watchdog.ts";
+import type { QueueSnapshot } from "../queue.ts";
+
+// --- Types ---
+export interface BotAgent {
+  name: string;
+  description?: string;
+  jobs?: string[];
+}
+
+export interface BotButton {
+  text: string;
+  data: string; // callback data: the command without its "/"
+}
+
+export interface BotReply {
+  text: string;
+  buttons?: BotButton[][];
+}
+
+interface LiveStatus {
+  paused: string[];
+  queue: QueueSnapshot;
+  nextRuns: Record<string, string>;
+}
+
+// Registered with setMyCommands, so Telegram autocompletes them
+export const BOT_COMMANDS = [
+  { command: "status", description: "Jobs, last runs and next run times" },
+  { command: "run", description: "Run a job now" },
+  { command: "cancel", description: "Stop a running job" },
+  { command: "logs", description: "Tail a job's latest log" },
+  { command: "pause", description: "Skip an agent's scheduled runs" },
+  { command: "resume", description: "Run paused jobs again" },
+  { command: "new", description: "Start an agent's chat in a fresh session" },
+  { command: "agents", description: "List the agents" },
+  { command: "sessions", description: "List sessions" },
+  { command: "help", description: "How to talk to the agents" },
+];
+
+const COMMAND_RE = /^\/(status|run|cancel|logs|pause|resume|new|agents|help|start)(?:@\w+)?(?:\s+(\S+))?\s*$/;
+
+const MAX_CALLBACK_BYTES = 64; // Telegram's limit on callback data
+const LOG_TAIL_LINES = 40;
+const LOG_TAIL_CHARS = 3500;
+
+// --- Helpers ---
+function button(text: string, data: string): BotButton | undefined {
+  return Buffer.byteLength(data) <= MAX_CALLBACK_BYTES ? { text, data } : undefined;
+}
+
+/** Two buttons per row. */
+function rows(buttons: Array<BotButton | undefined>): BotButton[][] {
+  const list = buttons.filter((b): b is BotButton => !!b);
+  const out: BotButton[][] = [];
+  for (let i = 0; i < list.length; i += 2) out.push(list.slice(i, i + 2));
+  return out;
+}
+
+function pickAgent(command: string, text: string, agents: BotAgent[]): BotReply {
+  if (agents.length === 0) return { text: "No agents to choose from." };
+  return { text, buttons: rows(agents.map((a) => button(a.name, `${command} ${a.name}`))) };
+}
+
+function pickJob(command: string, text: string, agent: BotAgent): BotReply {
+  const jobs = agent.jobs ?? [];
+  if (jobs.length === 0) return { text: `${agent.name} has no jobs.` };
+  return { text, buttons: rows(jobs.map((j) => button(j, `${command} ${agent.name}/${j}`))) };
+}
+
+async function liveStatus(): Promise<LiveStatus> {
+  const reply = await chatControl({ command: "status", args: [] });
+  return { paused: [], queue: {}, nextRuns: {}, ...reply.data };
+}
+
+function pausedIn(paused: string[], agent: string, job?: string): boolean {
+  return paused.includes("*") || paused.includes(agent) || (!!job && paused.includes(`${agent}/${job}`));
+}
+
+const since = (iso: string) => formatSpan((Date.now() - new Date(iso).getTime()) / 1000);
+const ago = (iso: string) => `${since(iso)} ago`;
+
+function agentState(name: string, live: LiveStatus): string {
+  const lane = live.queue[name];
+  const parts: string[] = [];
+  if (lane?.running) parts.push(`▶️ ${lane.running.label} (${since(lane.running.startedAt)})`);
+  if (lane?.waiting.length) parts.push(`${lane.waiting.length} waiting`);
+  if (pausedIn(live.paused, name)) parts.push("⏸️ paused");
+  return parts.length ? parts.join(" · ") : "idle";
+}
+
+/** "agent" or "agent/job" against the known agents — or what's wrong with it. */
+function resolve(
+  ref: string,
+  agents: BotAgent[]
+): { agent: BotAgent; job?: string } | string {
+  const [agentName, job] = ref.split("/", 2);
+  const agent = agents.find((a) => a.name === agentName);
+  if (!agent) return `Agent "${agentName}" not found`;
+  if (job && !agent.jobs?.includes(job)) return `Job "${job}" not found in agent "${agentName}"`;
+  return { agent, job };
+}
+
+// --- Commands ---
+async function status(agents: BotAgent[], ref?: string): Promise<BotReply> {
+  let shown = agents;
+  if (ref) {
+    const target = resolve(ref, agents);
+    if (typeof target === "string") return { text: `❌ ${target}` };
+    shown = [target.agent];
+  }
+  if (shown.length === 0) return { text: "No agents configured." };
+
+  const live = await liveStatus();
+  const sections = shown.map((agent) => {
+    const lines = [`🤖 ${agent.name} — ${agentState(agent.name, live)}`];
+    for (const job of agent.jobs ?? []) {
+      const { last } = jobSummary(agent.name, job);
+      const next = live.nextRuns[`${agent.name}/${job}`];
+      const parts = [last ? `${last.status} ${ago(last.finished_at ?? last.started_at)}` : "never run"];
+      if (pausedIn(live.paused, agent.name, job)) parts.push("paused");
+      else if (next) parts.push(`next in ${formatSpan(Math.max(0, (new Date(next).getTime() - Date.now()) / 1000))}`);
+      lines.push(`  ${statusEmoji(last?.status)} ${job} — ${parts.join(" · ")}`);
+    }
+    return lines.join("\n");
+  });
+
+  if (!ref) {
+    return { text: sections.join("\n\n"), buttons: rows(shown.map((a) => button(`🤖 ${a.name}`, `status ${a.name}`))) };
+  }
+  const name = shown[0].name;
+  const paused = pausedIn(live.paused, name);
+  return {
+    text: sections[0],
+    buttons: rows([
+      button("▶️ Run…", `run ${name}`),
+      button("📜 Logs…", `logs ${name}`),
+      live.queue[name]?.running || live.queue[name]?.waiting.length ? button("🚫 Cancel", `cancel ${name}`) : undefined,
+      paused ? button("▶️ Resume", `resume ${name}`) : button("⏸️ Pause", `pause ${name}`),
+    ]),
+  };
+}
+
+async function run(agents: BotAgent[], ref?: string): Promise<BotReply> {
+  if (!ref) return pickAgent("run", "Run a job of which agent?", agents.filter((a) => a.jobs?.length));
+  const target = resolve(ref, agents);
+  if (typeof target === "string") return { text: `❌ ${target}` };
+  if (!target.job) return pickJob("run", `Run which ${target.agent.name} job?`, target.agent);
+  return { text: formatReply(await chatControl({ command: "trigger", args: [ref] })) };
+}
+
+async function cancelRuns(agents: BotAgent[], ref?: string): Promise<BotReply> {
+  if (ref) return { text: formatReply(await chatControl({ command: "cancel", args: [ref] })) };
+  const live = await liveStatus();
+  const busy = agents.filter((a) => live.queue[a.name]?.running || live.queue[a.name]?.waiting.length);
+  if (busy.length === 0) return { text: "Nothing is running or queued." };
+  return {
+    text: busy.map((a) => `🤖 ${a.name} — ${agentState(a.name, live)}`).join("\n") + "\n\nCancel which agent's runs?",
+    buttons: rows(busy.map((a) => button(`🚫 ${a.name}`, `cancel ${a.name}`))),
+  };
+}
+
+function logs(agents: BotAgent[], ref?: string): BotReply {
+  if (!ref) return pickAgent("logs", "Logs of which agent?", agents.filter((a) => a.jobs?.length));
+  const target = resolve(ref, agents);
+  if (typeof target === "string") return { text: `❌ ${target}` };
+  if (!target.job) return pickJob("logs", `Logs of which ${target.agent.name} job?`, target.agent);
+
+  const summary = jobSummary(target.agent.name, target.job);
+  const run = summary.running ?? summary.last;
+  if (!run?.log_path) return { text: `No logs for ${ref} yet.` };
+  let content: string;
+  try {
+    content = readFileSync(run.log_path, "utf-8");
+  } catch {
+    return { text: `📜 ${ref} run #${run.id}: ${run.log_path} is gone.` };
+  }
+  const tail = content.trimEnd().split("\n").slice(-LOG_TAIL_LINES).join("\n").slice(-LOG_TAIL_CHARS);
+  return {
+    text: `📜 ${ref} — run #${run.id} ${statusEmoji(run.status)} ${run.status}, started ${ago(run.started_at)}\n\n${tail}`,
+    buttons: run.status === "running" ? rows([button("🔄 Refresh", `logs ${ref}`)]) : undefined,
+  };
+}
+
+async function pauseOrResume(command: "pause" | "resume", agents: BotAgent[], ref?: string): Promise<BotReply> {
+  if (ref) {
+    const args = ref === "all" ? [] : [ref];
+    return { text: formatReply(await chatControl({ command, args })) };
+  }
+  const { paused } = await liveStatus();
+  if (command === "pause") {
+    const active = agents.filter((a) => !pausedIn(paused, a.name));
+    return {
+      text: "Pause which agent's scheduled runs?",
+      buttons: rows([
+        ...active.map((a) => button(`⏸️ ${a.name}`, `pause ${a.name}`)),
+        paused.includes("*") ? undefined : button("⏸️ Everything", "pause all"),
+      ]),
+    };
+  }
+  if (paused.length === 0) return { text: "Nothing is paused." };
+  return {
+    text: `Paused: ${paused.map((t) => (t === "*" ? "everything" : t)).join(", ")}\n\nResume which?`,
+    buttons: rows([
+      ...paused.map((t) => (t === "*" ? button("▶️ Everything", "resume all") : button(`▶️ ${t}`, `resume ${t}`))),
+      paused.length > 1 ? button("▶️ All of them", "resume all") : undefined,
+    ]),
+  };
+}
+
+function newSession(agents: BotAgent[], ref?: string): BotReply {
+  if (!ref) return pickAgent("new", "Start which agent's chat over?", agents);
+  const target = resolve(ref, agents);
+  if (typeof target === "string") return { text: `❌ ${target}` };
+  const name = target.agent.name;
+  return {
+    text: resetSession(name, CHAT_SESSION)
+      ? `🧹 ${name}'s chat starts over — your next @${name} message begins a new conversation`
+      : `${name}'s chat has no conversation yet — your next @${name} message starts one`,
+  };
+}
+
+async function agentList(agents: BotAgent[]): Promise<BotReply> {
+  if (agents.length === 0) return { text: "No agents configured." };
+  const live = await liveStatus();
+  return {
+    text: agents
+      .map((a) => {
+        const jobs = `${a.jobs?.length ?? 0} job(s)`;
+        return `🤖 ${a.name}${a.description ? ` — ${a.description}` : ""}\n   ${jobs} · ${agentState(a.name, live)}`;
+      })
+      .join("\n"),
+    buttons: rows(agents.map((a) => button(`🤖 ${a.name}`, `status ${a.name}`))),
+  };
+}
+
+/** How to reach the agents, plus every command. */
+export function botHelp(agents: BotAgent[]): string {
+  const names = agents.map((a) => `@${a.name}`).join(", ") || "(none)";
+  const commands = BOT_COMMANDS.filter((c) => c.command !== "sessions" && c.command !== "help");
+  return (
+    `Reply to an agent's message, or use @agent prefix:\n${names}\n\n` +
+    commands.map((c) => `/${c.command} — ${c.description}`).join("\n") +
+    `\n${SESSION_COMMAND_HELP}`
+  );
+}
+
+/**
+ * If `text` is a bot command, run it and return the reply. Button presses
+ * come through here too, as "/" + their callback data.
+ */
+export async function handleBotCommand(text: string, agents: BotAgent[]): Promise<BotReply | undefined> {
+  const match = text.trim().match(COMMAND_RE);
+  if (!match) return undefined;
+  const [, command, ref] = match;
+
+  switch (command) {
+    case "status":
+      return status(agents, ref);
+    case "run":
+      return run(agents, ref);
+    case "cancel":
+      return cancelRuns(agents, ref);
+    case "logs":
+      return logs(agents, ref);
+    case "pause":
+    case "resume":
+      return pauseOrResume(command, agents, ref);
+    case "new":
+      return newSession(agents, ref);
+    case "agents":
+      return agentList(agents);
+    default:
+      return { text: botHelp(agents) };
+  }
+}
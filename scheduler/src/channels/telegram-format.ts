@@ -0,0 +1,188 @@
+/**
+ * Telegram formatting — Claude's Markdown as Telegram HTML, in pieces that fit.
+ *
+ * Telegram's own "Markdown" mode rejects a whole message over one stray
+ * `_` or `*`, which Claude output is full of (snake_case, globs, footnotes).
+ * Its HTML mode only needs `<`, `>`, `&` and `"` escaped, so the converter
+ * escapes everything and then adds tags only for constructs it recognises
+ * completely: code blocks, inline code, bold, italics, strikethrough,
+ * links, headings (as bold), lists and quotes. Anything else stays visible as
+ * the plain characters it was. telegram.ts still falls back to plain text if
+ * Telegram rejects a message anyway.
+ *
+ * Messages are capped at 4096 characters, so long output is split first —
+ * between paragraphs, never inside a code block unless the block alone is
+ * too long, in which case each piece is fenced again.
+ */
+
+// --- Types ---
+interface Fence {
+  open: string; // the opening fence line, e.g. "```ts"
+  close: string; // "```" or "~~~"
+  lang: string;
+}
+
+const FENCE_RE = /^\s*(`{3,}|~{3,})\s*([\w+#.-]*)\s*$/;
+
+// --- HTML ---
+export function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function fenceOf(line: string): Fence | undefined {
+  const m = line.match(FENCE_RE);
+  return m ? { open: line.trim(), close: m[1], lang: m[2] } : undefined;
+}
+
+/** Inline Markdown → HTML. Code spans and links are set aside first so emphasis can't reach into them. */
+function inline(text: string): string {
+  const kept: string[] = [];
+  const keep = (html: string) => `\u0000${kept.push(html) - 1}\u0000`;
+
+  let out = text
+    .replace(/\u0000/g, "")
+    .replace(/`([^`\n]+)`/g, (_, code) => keep(`<code>${escapeHtml(code)}</code>`))
+    .replace(/\[([^\]\n]+)\]\((https?:\/\/[^\s)]+)\)/g, (_, label, url) =>
+      keep(`<a href="${escapeHtml(url)}">${escapeHtml(label)}</a>`)
+    );
+
+  out = escapeHtml(out)
+    .replace(/\*\*(?=\S)(.+?)(?<=\S)\*\*/g, "<b>$1</b>")
+    .replace(/(?<![\w_])__(?=\S)(.+?)(?<=\S)__(?![\w_])/g, "<b>$1</b>")
+    .replace(/~~(?=\S)(.+?)(?<=\S)~~/g, "<s>$1</s>")
+    .replace(/(?<![\w*])\*(?=[^\s*])([^*]+?)(?<=[^\s*])\*(?![\w*])/g, "<i>$1</i>")
+    .replace(/(?<![\w_])_(?=[^\s_])([^_]+?)(?<=[^\s_])_(?![\w_])/g, "<i>$1</i>");
+
+  return out.replace(/\u0000(\d+)\u0000/g, (_, i) => kept[Number(i)]);
+}
+
+/** Claude's Markdown → Telegram HTML. Always produces markup Telegram accepts for well-nested input. */
+export function toTelegramHtml(markdown: string): string {
+  const out: string[] = [];
+  const lines = markdown.split("\n");
+  let quote: string[] = [];
+
+  const flushQuote = () => {
+    if (quote.length) out.push(`<blockquote>${quote.join("\n")}</blockquote>`);
+    quote = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const fence = fenceOf(line);
+    if (fence) {
+      flushQuote();
+      const body: string[] = [];
+      while (++i < lines.length && !(lines[i].trim().startsWith(fence.close) && fenceOf(lines[i]))) {
+        body.push(lines[i]);
+      }
+      const code = escapeHtml(body.join("\n"));
+      out.push(
+        fence.lang
+          ? `<pre><code class="language-${escapeHtml(fence.lang)}">${code}</code></pre>`
+          : `<pre>${code}</pre>`
+      );
+      continue;
+    }
+
+    const quoted = line.match(/^\s*>\s?(.*)$/);
+    if (quoted) {
+      quote.push(inline(quoted[1]));
+      continue;
+    }
+    flushQuote();
+
+    const heading = line.match(/^\s*#{1,6}\s+(.*?)\s*#*\s*$/);
+    const bullet = line.match(/^(\s*)[-*+]\s+(.*)$/);
+    if (heading) out.push(`<b>${inline(heading[1])}</b>`);
+    else if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) out.push("──────────");
+    else if (bullet) out.push(`${bullet[1]}• ${inline(bullet[2])}`);
+    else out.push(inline(line));
+  }
+  flushQuote();
+  return out.join("\n");
+}
+
+// --- Splitting ---
+
+/** Paragraphs and whole fenced code blocks. */
+function blocks(text: string): string[] {
+  const out: string[] = [];
+  let current: string[] = [];
+  let fence: Fence | undefined;
+
+  const flush = () => {
+    if (current.length) out.push(current.join("\n"));
+    current = [];
+  };
+
+  for (const line of text.split("\n")) {
+    const marker = fenceOf(line);
+    if (fence) {
+      current.push(line);
+      if (marker && line.trim().startsWith(fence.close)) {
+        fence = undefined;
+        flush();
+      }
+    } else if (marker) {
+      flush();
+      fence = marker;
+      current.push(line);
+    } else if (!line.trim()) {
+      flush();
+    } else {
+      current.push(line);
+    }
+  }
+  flush();
+  return out;
+}
+
+/** Greedily join `parts` with `sep` into strings of at most `limit`. */
+function pack(parts: string[], sep: string, limit: number): string[] {
+  const out: string[] = [];
+  let current = "";
+  for (const part of parts) {
+    if (current && current.length + sep.length + part.length > limit) {
+      out.push(current);
+      current = part;
+    } else {
+      current = current ? current + sep + part : part;
+    }
+  }
+  if (current) out.push(current);
+  return out;
+}
+
+/** A line too long for any message, cut at spaces where possible. */
+function hardSplit(line: string, limit: number): string[] {
+  const out: string[] = [];
+  let rest = line;
+  while (rest.length > limit) {
+    const space = rest.lastIndexOf(" ", limit);
+    const cut = space > limit / 2 ? space : limit;
+    out.push(rest.slice(0, cut));
+    rest = rest.slice(cut).replace(/^ /, "");
+  }
+  if (rest) out.push(rest);
+  return out;
+}
+
+/** A block that fits in `limit`, or the pieces it splits into — code blocks fenced again. */
+function pieces(block: string, limit: number): string[] {
+  if (block.length <= limit) return [block];
+  const lines = block.split("\n");
+  const fence = fenceOf(lines[0]);
+  if (!fence) return pack(lines.flatMap((l) => hardSplit(l, limit)), "\n", limit);
+
+  const last = lines.length > 1 && fenceOf(lines[lines.length - 1]) ? lines.length - 1 : lines.length;
+  const room = limit - fence.open.length - fence.close.length - 2;
+  const bodies = pack(lines.slice(1, last).flatMap((l) => hardSplit(l, room)), "\n", room);
+  return bodies.map((body) => `${fence.open}\n${body}\n${fence.close}`);
+}
+
+/** Split Markdown into messages of at most `limit` characters, on paragraph and code-block boundaries. */
+export function splitMarkdown(text: string, limit: number): string[] {
+  return pack(blocks(text).flatMap((b) => pieces(b, limit)), "\n\n", limit);
+}
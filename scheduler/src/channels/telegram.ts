@@ -5,27 +5,45 @@
  * Inbound:  Reply to an agent's message → routed to that agent's session
  *
  * How routing works:
- * - Every outbound message is tracked: message_id → agent_name
- * - When you reply to a message, we look up which agent sent it
- * - Your reply is piped to that agent's `claude --continue` in its workdir
+ * - Every outbound message is tracked: message_id → agent_name + session
+ * - When you reply to a message, we look up which agent (and session) sent it
+ *   — replying to a job's report continues that job's conversation
+ * - "@agent text" goes to the agent's chat session, "@agent#name text" to
+ *   the named session
+ * - Photos, voice notes and documents go along too, captioned the same way
+ *   (see inbox.ts)
+ * - Your message is queued for that session in the agent's workdir and
+ *   acknowledged right away with a job handle (#id)
+ * - While it works, a progress message is kept up to date (see live.ts)
  * - The response is sent back as a new message (tagged with agent name)
+ *
+ * Bot commands (/status, /run, /logs, …) and their inline keyboard buttons
+ * are handled by telegram-commands.ts.
  */
 
-import { execSync } from "child_process";
+import { startChatJob, describeAck } from "../workers.ts";
+import { handleSessionCommand, CHAT_SESSION } from "../sessions.ts";
+import { countSendFailure, countReconnect } from "../metrics.ts";
+import { handleBotCommand, botHelp, BOT_COMMANDS, type BotReply } from "./telegram-commands.ts";
+import { toTelegramHtml, splitMarkdown, escapeHtml } from "./telegram-format.ts";
+import { startLiveProgress, type LiveProgress, type LiveTarget } from "../live.ts";
+import { checkAttachments, attachmentPrompt, type Attachment } from "../inbox.ts";
+import type { Artifact } from "../artifacts.ts";
 import { readFileSync, writeFileSync, existsSync, mkdirSync } from "fs";
-import { join, resolve } from "path";
-import { homedir } from "os";
+import { join, resolve, basename } from "path";
 
 // --- Types ---
 export interface TelegramConfig {
   botToken: string;
   userId: string;
   enabled?: boolean;
+  progress?: boolean; // live progress messages while agents work (default true)
 }
 
 interface MessageMap {
   [messageId: string]: {
     agent: string;
+    session?: string; // named session replies continue (default "chat")
     timestamp: string;
   };
 }
@@ -34,6 +52,7 @@ interface MessageMap {
 const ROOT = resolve(import.meta.dir, "../..");
 const MAP_FILE = join(ROOT, ".telegram-messages.json");
 let messageMap: MessageMap = {};
+let agentMap = new Map<string, AgentInfo>(); // replaced on config reload
 
 function loadMessageMap() {
   try {
@@ -55,50 +74,186 @@ function saveMessageMap() {
   writeFileSync(MAP_FILE, JSON.stringify(messageMap, null, 2));
 }
 
-function expandPath(p: string): string {
-  if (p.startsWith("~/")) return join(homedir(), p.slice(2));
-  return resolve(p);
-}
-
 // --- Telegram API helpers ---
-async function apiCall(config: TelegramConfig, method: string, body: any): Promise<any> {
+
+/**
+ * Call a Bot API method — JSON, or multipart for a FormData body (uploads).
+ * Failed sends are counted for /metrics unless `counted` is false (the
+ * caller decides, e.g. when a formatting error is retried as plain text).
+ */
+async function apiCall(config: TelegramConfig, method: string, body: any, counted = true): Promise<any> {
   const url = `https://api.telegram.org/bot${config.botToken}/${method}`;
-  const res = await fetch(url, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify(body),
-  });
-  return res.json();
+  const sending = counted && method !== "getUpdates"; // polling failures count as reconnects instead
+  const upload = body instanceof FormData;
+  try {
+    const res = await fetch(url, {
+      method: "POST",
+      headers: upload ? undefined : { "Content-Type": "application/json" },
+      body: upload ? body : JSON.stringify(body),
+    });
+    const result = await res.json();
+    if (sending && !result.ok) countSendFailure("telegram");
+    return result;
+  } catch (err) {
+    if (sending) countSendFailure("telegram");
+    throw err;
+  }
 }
 
 // --- Outbound: Send agent message to Telegram ---
+const MESSAGE_LIMIT = 4096;
+const CHUNK_CHARS = 3500; // Markdown per message — leaves room for the HTML it turns into
+const DOCUMENT_THRESHOLD = 12_000; // longer output is uploaded as a .md file
+const SUMMARY_CHARS = 1500; // how much of it the message with the file shows
+
+function track(msgId: string, agent: string, session: string) {
+  messageMap[msgId] = { agent, session, timestamp: new Date().toISOString() };
+}
+
+/**
+ * Send `markdown` as HTML under `header` (already HTML), or as plain text
+ * if it doesn't fit once converted or Telegram can't parse it.
+ * Returns the message id, or null if it couldn't be sent at all.
+ */
+async function sendFormatted(
+  config: TelegramConfig,
+  header: { html: string; plain: string },
+  markdown: string,
+  replyTo?: string
+): Promise<string | null> {
+  const base = { chat_id: config.userId, reply_to_message_id: replyTo ? Number(replyTo) : undefined };
+  const html = header.html + toTelegramHtml(markdown);
+
+  if (html.length <= MESSAGE_LIMIT) {
+    let result: any;
+    try {
+      result = await apiCall(config, "sendMessage", { ...base, text: html, parse_mode: "HTML" }, false);
+    } catch (err) {
+      countSendFailure("telegram");
+      throw err;
+    }
+    if (result.ok) return String(result.result.message_id);
+    if (result.error_code !== 400) {
+      countSendFailure("telegram");
+      console.error("Telegram send error:", result);
+      return null;
+    }
+    console.warn(`⚠️  Telegram rejected the formatting (${result.description}) — sending as plain text`);
+  }
+
+  const result = await apiCall(config, "sendMessage", {
+    ...base,
+    text: (header.plain + markdown).slice(0, MESSAGE_LIMIT),
+  });
+  if (result.ok) return String(result.result.message_id);
+  console.error("Telegram send error:", result);
+  return null;
+}
+
+/** "researcher-reply-12-2026-10-19-0700.md" */
+function documentName(agentName: string, jobName: string): string {
+  const stamp = new Date().toISOString().slice(0, 16).replace(/[T:]/g, "-").replace(/-(\d\d)$/, "$1");
+  return `${agentName}-${jobName}-${stamp}.md`.replace(/[^\w.-]+/g, "-");
+}
+
+/**
+ * Send an agent's output, tagged with its name. Output is converted to
+ * Telegram's HTML and split into as many messages as it needs; past
+ * DOCUMENT_THRESHOLD it's uploaded as a .md file under a summary message.
+ * Every message sent is tracked, so replying to any of them reaches the
+ * agent. Returns the first message's id.
+ */
 export async function sendAgentMessage(
   config: TelegramConfig,
   agentName: string,
   jobName: string,
-  text: string
+  text: string,
+  session: string = CHAT_SESSION
 ): Promise<string | null> {
-  const prefix = `🤖 *${agentName}* — _${jobName}_\n\n`;
-  const fullText = (prefix + text).slice(0, 4096);
+  const tag = {
+    html: `🤖 <b>${escapeHtml(agentName)}</b> — <i>${escapeHtml(jobName)}</i>`,
+    plain: `🤖 ${agentName} — ${jobName}`,
+  };
+  const sent: string[] = [];
+
+  if (text.length > DOCUMENT_THRESHOLD) {
+    const name = documentName(agentName, jobName);
+    const summary = splitMarkdown(text, SUMMARY_CHARS)[0] ?? "";
+    const note = `📎 ${text.length.toLocaleString()} characters — the full output is in ${name}`;
+    const summaryId = await sendFormatted(
+      config,
+      { html: `${tag.html}\n\n`, plain: `${tag.plain}\n\n` },
+      `${summary}\n\n…\n\n${note}`
+    );
+    if (summaryId) sent.push(summaryId);
+
+    const form = new FormData();
+    form.append("chat_id", config.userId);
+    form.append("document", new Blob([text], { type: "text/markdown" }), name);
+    if (summaryId) form.append("reply_to_message_id", summaryId);
+    const result = await apiCall(config, "sendDocument", form);
+    if (result.ok) sent.push(String(result.result.message_id));
+    else console.error("Telegram upload error:", result);
+  } else {
+    const chunks = splitMarkdown(text, CHUNK_CHARS);
+    for (const [i, chunk] of chunks.entries()) {
+      const part = chunks.length > 1 ? ` (${i + 1}/${chunks.length})` : "";
+      const id = await sendFormatted(
+        config,
+        { html: `${tag.html}${part}\n\n`, plain: `${tag.plain}${part}\n\n` },
+        chunk
+      );
+      if (id) sent.push(id);
+    }
+  }
 
-  const result = await apiCall(config, "sendMessage", {
-    chat_id: config.userId,
-    text: fullText,
-    parse_mode: "Markdown",
-  });
+  for (const id of sent) track(id, agentName, session);
+  if (sent.length) saveMessageMap();
+  return sent[0] ?? null;
+}
+
+// --- Outbound: Files a job produced (see artifacts.ts) ---
 
-  if (result.ok) {
-    const msgId = String(result.result.message_id);
-    messageMap[msgId] = {
-      agent: agentName,
-      timestamp: new Date().toISOString(),
-    };
-    saveMessageMap();
-    return msgId;
+/** Upload `files` as documents captioned with where they came from; replies reach the agent. */
+export async function sendFiles(
+  config: TelegramConfig,
+  agentName: string,
+  jobName: string,
+  files: Artifact[],
+  session: string = CHAT_SESSION
+): Promise<void> {
+  for (const file of files) {
+    const form = new FormData();
+    form.append("chat_id", config.userId);
+    form.append("caption", `📎 ${agentName} — ${jobName} · ${file.name}`);
+    try {
+      form.append("document", new Blob([readFileSync(file.path)]), basename(file.name));
+    } catch (err: any) {
+      console.error(`Telegram upload error: ${file.name}: ${err.message}`);
+      continue;
+    }
+    const result = await apiCall(config, "sendDocument", form);
+    if (result.ok) track(String(result.result.message_id), agentName, session);
+    else console.error("Telegram upload error:", result);
   }
+  saveMessageMap();
+}
 
-  console.error("Telegram send error:", result);
-  return null;
+// --- Outbound: Scheduler notices (not routed to any agent) ---
+export async function sendSystemMessage(
+  config: TelegramConfig,
+  title: string,
+  text: string
+): Promise<void> {
+  const chunks = splitMarkdown(text, CHUNK_CHARS);
+  for (const [i, chunk] of chunks.entries()) {
+    const part = chunks.length > 1 ? ` (${i + 1}/${chunks.length})` : "";
+    const result = await apiCall(config, "sendMessage", {
+      chat_id: config.userId,
+      text: `🛠 OCALT — ${title}${part}\n\n${chunk}`.slice(0, MESSAGE_LIMIT),
+    });
+    if (!result.ok) console.error("Telegram send error:", result);
+  }
 }
 
 // --- Outbound: Send typing indicator ---
@@ -109,12 +264,156 @@ export async function sendTyping(config: TelegramConfig) {
   });
 }
 
+// --- Outbound: Live progress ---
+// Telegram allows about one message a second per chat, edits included —
+// leave room for the other runs and replies sharing it
+const PROGRESS_INTERVAL_MS = 4000;
+
+/** Where live.ts posts progress for `agentName`'s `session`; replying to it reaches the agent. */
+export function progressTarget(
+  config: TelegramConfig,
+  agentName: string,
+  session: string = CHAT_SESSION
+): LiveTarget {
+  return {
+    intervalMs: PROGRESS_INTERVAL_MS,
+    post: async (text) => {
+      const result = await apiCall(config, "sendMessage", {
+        chat_id: config.userId,
+        text: text.slice(0, MESSAGE_LIMIT),
+        disable_notification: true,
+      });
+      if (!result.ok) {
+        console.error("Telegram send error:", result);
+        return undefined;
+      }
+      const id = String(result.result.message_id);
+      track(id, agentName, session);
+      saveMessageMap();
+      return id;
+    },
+    edit: async (id, text) => {
+      const result = await apiCall(
+        config,
+        "editMessageText",
+        { chat_id: config.userId, message_id: Number(id), text: text.slice(0, MESSAGE_LIMIT) },
+        false
+      );
+      if (result.ok || /not modified/.test(result.description ?? "")) return 0;
+      if (result.error_code === 429) return (result.parameters?.retry_after ?? 5) * 1000;
+      countSendFailure("telegram");
+      console.error("Telegram edit error:", result);
+      return 0;
+    },
+  };
+}
+
+// --- Outbound: Bot command replies ---
+function keyboard(reply: BotReply) {
+  if (!reply.buttons?.length) return undefined;
+  return {
+    inline_keyboard: reply.buttons.map((row) => row.map((b) => ({ text: b.text, callback_data: b.data }))),
+  };
+}
+
+async function sendBotReply(config: TelegramConfig, reply: BotReply, replyTo?: number) {
+  const result = await apiCall(config, "sendMessage", {
+    chat_id: config.userId,
+    text: reply.text.slice(0, 4096),
+    reply_to_message_id: replyTo,
+    reply_markup: keyboard(reply),
+  });
+  if (!result.ok) console.error("Telegram send error:", result);
+}
+
+/** A button was pressed: run its command and show the reply in place of its message. */
+async function handleCallback(config: TelegramConfig, query: any) {
+  if (String(query.from?.id) !== config.userId) {
+    await apiCall(config, "answerCallbackQuery", { callback_query_id: query.id });
+    return;
+  }
+  const reply = await handleBotCommand(`/${query.data ?? ""}`, [...agentMap.values()]);
+  await apiCall(config, "answerCallbackQuery", {
+    callback_query_id: query.id,
+    text: reply ? undefined : "That button no longer does anything",
+  });
+  if (!reply) return;
+
+  const message = query.message;
+  if (!message) return sendBotReply(config, reply);
+  const result = await apiCall(config, "editMessageText", {
+    chat_id: message.chat.id,
+    message_id: message.message_id,
+    text: reply.text.slice(0, 4096),
+    reply_markup: keyboard(reply),
+  });
+  // Pressing "Refresh" when nothing changed isn't worth a new message
+  if (!result.ok && !/not modified/.test(result.description ?? "")) {
+    console.error("Telegram edit error:", result);
+  }
+}
+
+// --- Inbound: Attachments (see inbox.ts) ---
+
+/** A message's photo, voice note, audio file or document. */
+function attachmentsOf(config: TelegramConfig, msg: any): Attachment[] {
+  // Files are fetched by path, which getFile hands out for about an hour
+  const fileUrl = (fileId: string) => async () => {
+    const result = await apiCall(config, "getFile", { file_id: fileId }, false);
+    if (!result.ok) throw new Error(result.description ?? "getFile failed");
+    return `https://api.telegram.org/file/bot${config.botToken}/${result.result.file_path}`;
+  };
+  const id = msg.message_id;
+  const found: Attachment[] = [];
+
+  if (msg.photo?.length) {
+    const largest = msg.photo[msg.photo.length - 1];
+    found.push({
+      kind: "image",
+      name: `photo-${id}.jpg`,
+      mime: "image/jpeg",
+      size: largest.file_size,
+      url: fileUrl(largest.file_id),
+    });
+  }
+  if (msg.voice) {
+    found.push({
+      kind: "voice",
+      name: `voice-${id}.ogg`,
+      mime: msg.voice.mime_type ?? "audio/ogg",
+      size: msg.voice.file_size,
+      duration: msg.voice.duration,
+      url: fileUrl(msg.voice.file_id),
+    });
+  }
+  for (const file of [msg.audio, msg.document]) {
+    if (!file) continue;
+    found.push({
+      kind: file.mime_type?.startsWith("image/") ? "image" : "file",
+      name: file.file_name ?? `file-${id}`,
+      mime: file.mime_type,
+      size: file.file_size,
+      duration: file.duration,
+      url: fileUrl(file.file_id),
+    });
+  }
+  return found;
+}
+
 // --- Inbound: Poll for messages and route to agents ---
 export interface AgentInfo {
   name: string;
+  description?: string;
+  jobs?: string[]; // job names, for the bot commands' keyboards
   workdir: string;
   allowedTools?: string;
   timeout?: number;
+  killGrace?: number;
+}
+
+/** Swap the agents messages can be routed to (used on config reload). */
+export function setTelegramAgents(agents: AgentInfo[]) {
+  agentMap = new Map(agents.map((a) => [a.name, a]));
 }
 
 export async function startTelegramListener(
@@ -123,10 +422,14 @@ export async function startTelegramListener(
   onResponse?: (agentName: string, response: string) => void
 ) {
   loadMessageMap();
-
-  const agentMap = new Map(agents.map((a) => [a.name, a]));
+  setTelegramAgents(agents);
   let offset = 0;
 
+  // Register the bot commands so Telegram autocompletes them
+  apiCall(config, "setMyCommands", { commands: BOT_COMMANDS })
+    .then((result) => !result.ok && console.error("Telegram setMyCommands error:", result))
+    .catch((err) => console.error("Telegram setMyCommands error:", err));
+
   console.log(`📱 Telegram listener started (user ${config.userId})`);
 
   while (true) {
@@ -134,90 +437,140 @@ export async function startTelegramListener(
       const result = await apiCall(config, "getUpdates", {
         offset,
         timeout: 30,
-        allowed_updates: ["message"],
+        allowed_updates: ["message", "callback_query"],
       });
 
       if (!result.ok || !result.result?.length) continue;
 
       for (const update of result.result) {
         offset = update.update_id + 1;
+        if (update.callback_query) {
+          await handleCallback(config, update.callback_query);
+          continue;
+        }
         const msg = update.message;
-        if (!msg?.text) continue;
+        if (!msg) continue;
         if (String(msg.from?.id) !== config.userId) continue;
+        // Photos, voice notes and documents carry their text as a caption
+        const attachments = attachmentsOf(config, msg);
+        let text: string = msg.text ?? msg.caption ?? "";
+        if (!text && !attachments.length) continue;
+
+        // Bot commands: /status, /run, /cancel, /logs, /pause, /resume, /new, /agents
+        const botReply = msg.text && (await handleBotCommand(msg.text, [...agentMap.values()]));
+        if (botReply) {
+          await sendBotReply(config, botReply, msg.message_id);
+          continue;
+        }
+
+        // Session commands: /sessions, /reset, /fork
+        const commandReply = msg.text && handleSessionCommand(msg.text);
+        if (commandReply) {
+          await apiCall(config, "sendMessage", {
+            chat_id: config.userId,
+            text: commandReply,
+            reply_to_message_id: msg.message_id,
+          });
+          continue;
+        }
 
         // Check if this is a reply to an agent's message
         const replyTo = msg.reply_to_message?.message_id;
         let targetAgent: AgentInfo | undefined;
+        let session = CHAT_SESSION;
 
         if (replyTo) {
           const mapped = messageMap[String(replyTo)];
           if (mapped) {
             targetAgent = agentMap.get(mapped.agent);
+            session = mapped.session || CHAT_SESSION;
           }
         }
 
         // If not a reply, check for @agent prefix: "@researcher what's new?"
+        // or "@researcher#morning-scan why?" for a named session
         if (!targetAgent) {
-          const match = msg.text.match(/^@(\w+)\s+(.+)/s);
-          if (match) {
+          const match = text.match(/^@(\w+)(?:#([\w.-]+))?(?:\s+(.*))?$/s);
+          if (match && (match[3] || attachments.length)) {
             targetAgent = agentMap.get(match[1]);
             if (targetAgent) {
-              msg.text = match[2]; // Strip the @agent prefix
+              session = match[2] || CHAT_SESSION;
+              text = match[3] ?? ""; // Strip the @agent prefix
             }
           }
         }
 
         if (!targetAgent) {
-          // Unknown target — list available agents
-          const agentNames = agents.map((a) => `@${a.name}`).join(", ");
+          // Unknown target — list available agents and commands
           await apiCall(config, "sendMessage", {
             chat_id: config.userId,
-            text: `Reply to an agent's message, or use @agent prefix:\n${agentNames}`,
+            text: botHelp([...agentMap.values()]),
             reply_to_message_id: msg.message_id,
           });
           continue;
         }
 
-        console.log(
-          `💬 [${new Date().toLocaleTimeString()}] ${targetAgent.name} ← "${msg.text.slice(0, 80)}"`
-        );
-
-        // Show typing
-        await sendTyping(config);
-
-        // Run Claude in the agent's workdir with --continue
-        const workdir = expandPath(targetAgent.workdir);
-        const args = ["-p", msg.text, "--continue"];
-        if (targetAgent.allowedTools) {
-          args.push("--allowedTools", targetAgent.allowedTools);
-        }
-
-        try {
-          const cmd = `cd '${workdir}' && claude ${args
-            .map((a) => `'${a.replace(/'/g, "'\\''")}'`)
-            .join(" ")}`;
-
-          const output = execSync(cmd, {
-            encoding: "utf-8",
-            timeout: (targetAgent.timeout || 120) * 1000,
-          }).trim();
-
-          const response = output || "(empty response)";
-
-          // Send response and track the message
-          await sendAgentMessage(config, targetAgent.name, "reply", response);
-
-          if (onResponse) onResponse(targetAgent.name, response);
-        } catch (err: any) {
+        // Attachments the agent can't have are reported now; the rest are
+        // downloaded when the reply starts
+        const { accepted, rejected } = checkAttachments(attachments);
+        if (rejected.length) {
           await apiCall(config, "sendMessage", {
             chat_id: config.userId,
-            text: `⚠️ *${targetAgent.name}* error: ${err.message?.slice(0, 200)}`,
-            parse_mode: "Markdown",
+            text: `⚠️ Not passed on:\n${rejected.map((r) => `• ${r}`).join("\n")}`,
+            reply_to_message_id: msg.message_id,
           });
         }
+        // A caption whose files were all refused would reach the agent without them
+        if (!accepted.length && (rejected.length || !text.trim())) continue;
+
+        const files = accepted.length ? ` + ${accepted.length} attachment(s)` : "";
+        console.log(
+          `💬 [${new Date().toLocaleTimeString()}] ${targetAgent.name}#${session} ← "${text.slice(0, 80)}"${files}`
+        );
+
+        // Hand off to a chat worker — the poll loop keeps going meanwhile
+        const agentName = targetAgent.name;
+        const workdir = targetAgent.workdir;
+        const prompt = accepted.length ? () => attachmentPrompt(workdir, text, accepted) : text;
+        let live: LiveProgress | undefined;
+        const job = startChatJob(targetAgent, "telegram", session, prompt, {
+          onStart: async (job) => {
+            // Best-effort — a failed typing indicator mustn't lose the reply
+            if (config.progress === false) return sendTyping(config).catch(() => {});
+            live = startLiveProgress(`${agentName} — reply #${job.id}`, [
+              progressTarget(config, agentName, session),
+            ]);
+          },
+          onProgress: (_, line) => live?.feed(line),
+          onDone: async (job, response) => {
+            await live?.finish("✅ done");
+            await sendAgentMessage(config, agentName, `reply #${job.id}`, response, session);
+            if (onResponse) onResponse(agentName, response);
+          },
+          onError: async (job, message) => {
+            await live?.finish("❌ failed");
+            await apiCall(config, "sendMessage", {
+              chat_id: config.userId,
+              text: `⚠️ <b>${escapeHtml(agentName)}</b> #${job.id} error: ${escapeHtml(message.slice(0, 200))}`,
+              parse_mode: "HTML",
+            });
+          },
+        });
+
+        // Acknowledge with the job handle; replies to the ack reach the agent too
+        const ack = await apiCall(config, "sendMessage", {
+          chat_id: config.userId,
+          text: describeAck(job),
+          reply_to_message_id: msg.message_id,
+        });
+        if (ack.ok) {
+          track(String(ack.result.message_id), agentName, session);
+          saveMessageMap();
+        }
       }
     } catch (err) {
       console.error("Telegram poll error:", err);
+      countReconnect("telegram");
       await new Promise((r) => setTimeout(r, 5000));
     }
   }
@@ -0,0 +1,485 @@
+/**
+ * config.json — types, schema and the one loader everything uses.
+ *
+ * `readConfig` parses and checks the file without side effects (the daemon
+ * uses it on reload, `bun run validate` prints its result); `loadConfig` is
+ * the startup version that prints problems and exits on errors.
+ */
+
+import { readFileSync, existsSync } from "fs";
+import { join } from "path";
+import { CronTime } from "cron";
+import { parseJson, checkSchema, type Issue, type Schema } from "./schema.ts";
+import { checkPipelines, type JobAfter } from "./pipeline.ts";
+import { SYSTEM_CHANNEL, channelName } from "./channels/discord-names.ts";
+import type { ConcurrencyPolicy } from "./queue.ts";
+import type { RetryConfig } from "./retry.ts";
+import type { CatchUpPolicy } from "./catchup.ts";
+import type { TelegramConfig } from "./channels/telegram.ts";
+import type { DiscordConfig } from "./channels/discord.ts";
+import type { InteragentConfig } from "./channels/interagent.ts";
+import type { HttpConfig } from "./http.ts";
+import { checkTime, WEEKDAYS, type MaintenanceWindow, type QuietHours } from "./windows.ts";
+import { checkTemplate, checkTimezone } from "./template.ts";
+import { checkInboxDir, type AttachmentsConfig } from "./inbox.ts";
+import { checkArtifactPattern, type JobArtifacts } from "./artifacts.ts";
+
+// --- Types ---
+export interface Job {
+  name: string;
+  schedule?: string; // optional when the job only runs `after` others
+  after?: JobAfter;
+  mode: "continue" | "fresh";
+  session?: string; // named session to resume (default: the job's name)
+  prompt: string; // a template — see template.ts
+  timezone?: string; // for {{date}}/{{time}} in the prompt (overrides the agent's)
+  telegram?: boolean;
+  discord?: boolean;
+  progress?: boolean; // live progress message in chat while it runs (see live.ts)
+  artifacts?: JobArtifacts; // files to send to chat after the run (see artifacts.ts)
+  suppressIfMatch?: string;
+  interactive?: boolean;
+  timeout?: number;
+  killGrace?: number;
+  allowedTools?: string;
+  concurrency?: ConcurrencyPolicy; // overrides the agent's policy
+  retry?: RetryConfig; // merged over the agent's retry settings
+  catchUp?: CatchUpPolicy; // firings missed while the daemon was down
+  catchUpLimit?: number; // max catch-up runs for "all"
+  expectSuccessWithin?: number; // seconds — alert when the job hasn't succeeded for this long
+}
+
+export interface Agent {
+  name: string;
+  description?: string;
+  workdir: string;
+  claudeProfile?: string;
+  timezone?: string; // default timezone for the jobs' prompt dates
+  jobs: Job[];
+  allowedTools?: string;
+  timeout?: number;
+  killGrace?: number;
+  concurrency?: ConcurrencyPolicy; // when a run arrives while the agent is busy
+  retry?: RetryConfig; // default retry policy for the agent's jobs
+}
+
+export interface ChatConfig {
+  workers?: number; // max chat replies generated at once, across all agents
+  attachments?: AttachmentsConfig; // files sent from chat (see inbox.ts)
+}
+
+export interface ShutdownConfig {
+  drainTimeout?: number; // seconds running jobs get to finish before they're interrupted
+}
+
+export interface Config {
+  telegram?: TelegramConfig & { enabled?: boolean };
+  discord?: DiscordConfig & { enabled?: boolean };
+  interagent?: InteragentConfig;
+  chat?: ChatConfig;
+  shutdown?: ShutdownConfig;
+  http?: HttpConfig;
+  maintenance?: MaintenanceWindow[]; // when scheduled runs are skipped or deferred
+  quietHours?: QuietHours; // when notifications are held, then sent together
+  agents: Agent[];
+}
+
+export interface ConfigCheck {
+  config?: Config; // set only when there are no errors
+  errors: Issue[];
+  warnings: Issue[];
+}
+
+// --- Paths ---
+const ROOT = import.meta.dir.replace("/src", "");
+export const CONFIG_PATH = join(ROOT, "config.json");
+
+// --- Schema ---
+// Names end up in "agent/job" keys, tmux windows and file names — no ".",
+// which tmux reads as the window/pane separator in a target
+const NAME_RE = /^[\w-]+$/;
+
+const name: Schema = {
+  kind: "string",
+  check: (v) =>
+    NAME_RE.test(v) ? undefined : `"${v}" may only contain letters, digits, "-" and "_"`,
+};
+const text: Schema = { kind: "string" };
+const flag: Schema = { kind: "boolean" };
+const seconds: Schema = { kind: "number", min: 1 };
+const graceSeconds: Schema = { kind: "number", min: 0 };
+const concurrency: Schema = { kind: "string", enum: ["queue", "skip", "cancel"] };
+const timezone: Schema = { kind: "string", check: checkTimezone };
+
+const schedule: Schema = {
+  kind: "string",
+  check: (v) => {
+    try {
+      new CronTime(v);
+      return undefined;
+    } catch (err: any) {
+      return `invalid cron expression "${v}" (${err.message})`;
+    }
+  },
+};
+
+const retry: Schema = {
+  kind: "object",
+  fields: {
+    attempts: { kind: "number", integer: true, min: 1 },
+    delay: graceSeconds,
+    factor: { kind: "number", min: 1 },
+    maxDelay: graceSeconds,
+    on: { kind: "array", items: { kind: "string", enum: ["error", "timeout"] } },
+  },
+};
+
+const time: Schema = { kind: "string", check: checkTime };
+const days: Schema = { kind: "array", items: { kind: "string", enum: WEEKDAYS } };
+
+const dependency: Schema = {
+  kind: "object",
+  fields: {
+    job: text,
+    on: { kind: "string", enum: ["success", "failure", "always"] },
+  },
+  required: ["job"],
+};
+
+const after: Schema = {
+  kind: "oneOf",
+  describe: `a job name, { "job", "on" }, or a list of them`,
+  options: [
+    text,
+    dependency,
+    {
+      kind: "array",
+      items: { kind: "oneOf", describe: `a job name or { "job", "on" }`, options: [text, dependency] },
+    },
+  ],
+};
+
+const artifactPaths: Schema = {
+  kind: "array",
+  items: { kind: "string", check: checkArtifactPattern },
+};
+
+const artifacts: Schema = {
+  kind: "oneOf",
+  describe: `a list of glob patterns, or { "paths", "changedOnly", "maxSizeMb", "maxFiles" }`,
+  options: [
+    artifactPaths,
+    {
+      kind: "object",
+      fields: {
+        paths: artifactPaths,
+        changedOnly: flag,
+        maxSizeMb: { kind: "number", min: 0 },
+        maxFiles: { kind: "number", integer: true, min: 1 },
+      },
+    },
+  ],
+};
+
+const job: Schema = {
+  kind: "object",
+  fields: {
+    name,
+    schedule,
+    after,
+    mode: { kind: "string", enum: ["continue", "fresh"] },
+    session: name,
+    prompt: text,
+    timezone,
+    telegram: flag,
+    discord: flag,
+    progress: flag,
+    artifacts,
+    suppressIfMatch: text,
+    interactive: flag,
+    timeout: seconds,
+    killGrace: graceSeconds,
+    allowedTools: text,
+    concurrency,
+    retry,
+    catchUp: { kind: "string", enum: ["none", "once", "all"] },
+    catchUpLimit: { kind: "number", integer: true, min: 1 },
+    expectSuccessWithin: { kind: "number", min: 60 },
+  },
+  required: ["name", "mode", "prompt"],
+};
+
+const agent: Schema = {
+  kind: "object",
+  fields: {
+    name,
+    description: text,
+    workdir: text,
+    claudeProfile: text,
+    timezone,
+    jobs: { kind: "array", items: job },
+    allowedTools: text,
+    timeout: seconds,
+    killGrace: graceSeconds,
+    concurrency,
+    retry,
+  },
+  required: ["name", "workdir", "jobs"],
+};
+
+const configSchema: Schema = {
+  kind: "object",
+  fields: {
+    telegram: {
+      kind: "object",
+      fields: { enabled: flag, botToken: text, userId: text, progress: flag },
+      required: ["botToken", "userId"],
+    },
+    discord: {
+      kind: "object",
+      fields: {
+        enabled: flag,
+        botToken: text,
+        guildId: text,
+        categoryName: text,
+        allowedUserIds: { kind: "array", items: text },
+        progress: flag,
+      },
+      required: ["botToken", "guildId"],
+    },
+    interagent: {
+      kind: "object",
+      fields: {
+        sharedDir: text,
+        discordSharedChannels: { kind: "array", items: text },
+      },
+    },
+    chat: {
+      kind: "object",
+      fields: {
+        workers: { kind: "number", integer: true, min: 1 },
+        attachments: {
+          kind: "object",
+          fields: {
+            enabled: flag,
+            dir: { kind: "string", check: checkInboxDir },
+            maxSizeMb: { kind: "number", min: 0 },
+            types: { kind: "array", items: text },
+            transcribe: text,
+            transcribeTimeout: seconds,
+          },
+        },
+      },
+    },
+    shutdown: {
+      kind: "object",
+      fields: { drainTimeout: graceSeconds },
+    },
+    http: {
+      kind: "object",
+      fields: {
+        enabled: flag,
+        token: {
+          kind: "string",
+          check: (v) =>
+            v.length >= 16 ? undefined : "must be at least 16 characters (e.g. `openssl rand -hex 24`)",
+        },
+        port: { kind: "number", integer: true, min: 1 },
+        host: text,
+      },
+      required: ["token"],
+    },
+    maintenance: {
+      kind: "array",
+      items: {
+        kind: "object",
+        fields: {
+          name: text,
+          start: time,
+          end: time,
+          days,
+          targets: { kind: "array", items: text },
+          action: { kind: "string", enum: ["skip", "defer"] },
+        },
+        required: ["start", "end"],
+      },
+    },
+    quietHours: {
+      kind: "object",
+      fields: { start: time, end: time, days },
+      required: ["start", "end"],
+    },
+    agents: { kind: "array", items: agent },
+  },
+  required: ["agents"],
+};
+
+// --- Cross-field checks ---
+
+/**
+ * Duplicate agent/job names and Discord channel clashes. Runs on a config
+ * that may have failed the schema, so it only trusts what it checks.
+ */
+function checkNames(raw: any, lines: Map<string, number>, errors: Issue[], warnings: Issue[]) {
+  if (!Array.isArray(raw?.agents)) return;
+  const at = (path: string) => ({ path, line: lines.get(path) });
+  const seen = (path: string) => (lines.has(path) ? ` (first at line ${lines.get(path)})` : "");
+
+  const agentPaths = new Map<string, string>();
+  const channels = new Map<string, string>([[SYSTEM_CHANNEL, ""]]); // channel → agent path
+  const discordOn = !!raw.discord?.enabled;
+
+  raw.agents.forEach((a: any, i: number) => {
+    if (typeof a?.name !== "string") return;
+    const path = `agents[${i}].name`;
+
+    const first = agentPaths.get(a.name);
+    if (first !== undefined) {
+      errors.push({ ...at(path), message: `duplicate agent name "${a.name}"${seen(first)}` });
+    } else {
+      agentPaths.set(a.name, path);
+
+      // A clash only breaks anything once Discord is on
+      const channel = channelName(a.name);
+      const other = channels.get(channel);
+      if (other !== undefined) {
+        const message =
+          other === ""
+            ? `agent "${a.name}" maps to Discord channel #${channel}, which is reserved for scheduler notices`
+            : `agent "${a.name}" maps to the same Discord channel #${channel} as another agent${seen(other)}`;
+        (discordOn ? errors : warnings).push({ ...at(path), message });
+      } else {
+        channels.set(channel, path);
+      }
+    }
+
+    if (!Array.isArray(a.jobs)) return;
+    const jobPaths = new Map<string, string>();
+    a.jobs.forEach((j: any, k: number) => {
+      if (typeof j?.name !== "string") return;
+      const jobPath = `agents[${i}].jobs[${k}].name`;
+      const firstJob = jobPaths.get(j.name);
+      if (firstJob !== undefined) {
+        errors.push({
+          ...at(jobPath),
+          message: `duplicate job name "${j.name}" in agent "${a.name}"${seen(firstJob)}`,
+        });
+      } else {
+        jobPaths.set(j.name, jobPath);
+      }
+    });
+  });
+}
+
+/** Pipeline problems, placed on the offending job's `after` (or the job itself). */
+function checkAfter(config: Config, lines: Map<string, number>, errors: Issue[]) {
+  const jobPaths = new Map<string, string>();
+  config.agents.forEach((a, i) =>
+    a.jobs.forEach((j, k) => jobPaths.set(`${a.name}/${j.name}`, `agents[${i}].jobs[${k}]`))
+  );
+
+  for (const issue of checkPipelines(config.agents)) {
+    const jobPath = jobPaths.get(issue.job) || "agents";
+    const path = lines.has(`${jobPath}.after`) ? `${jobPath}.after` : jobPath;
+    errors.push({ path, line: lines.get(path), message: `${issue.job}: ${issue.message}` });
+  }
+}
+
+/** Maintenance targets that name no agent or job — most likely a typo. */
+function checkTargets(config: Config, lines: Map<string, number>, warnings: Issue[]) {
+  const known = new Set(["*"]);
+  for (const a of config.agents) {
+    known.add(a.name);
+    for (const j of a.jobs) known.add(`${a.name}/${j.name}`);
+  }
+  config.maintenance?.forEach((w, i) =>
+    w.targets?.forEach((target, k) => {
+      if (known.has(target)) return;
+      const path = `maintenance[${i}].targets[${k}]`;
+      warnings.push({ path, line: lines.get(path), message: `"${target}" is not an agent or agent/job` });
+    })
+  );
+}
+
+/** Prompt template problems, placed on the job's `prompt`. */
+function checkPrompts(config: Config, lines: Map<string, number>, errors: Issue[], warnings: Issue[]) {
+  config.agents.forEach((a, i) =>
+    a.jobs.forEach((j, k) => {
+      const path = `agents[${i}].jobs[${k}].prompt`;
+      const issues = checkTemplate(j.prompt, {
+        agent: a.name,
+        job: j.name,
+        workdir: a.workdir,
+        timezone: j.timezone ?? a.timezone,
+        after: j.after,
+      });
+      for (const message of issues.errors) errors.push({ path, line: lines.get(path), message });
+      for (const message of issues.warnings) warnings.push({ path, line: lines.get(path), message });
+    })
+  );
+}
+
+// --- Loading ---
+function byLine(issues: Issue[]) {
+  issues.sort((a, b) => (a.line ?? 0) - (b.line ?? 0));
+}
+
+/** Parse and check config text. Never throws. */
+export function checkConfigText(source: string): ConfigCheck {
+  const parsed = parseJson(source);
+  if (parsed.error) return { errors: [parsed.error], warnings: [] };
+
+  const errors: Issue[] = [];
+  const warnings: Issue[] = [];
+  checkSchema(parsed.value, configSchema, "", parsed.lines, errors, warnings);
+  checkNames(parsed.value, parsed.lines, errors, warnings);
+
+  // Pipelines can only be followed once every job is well-formed
+  const config = errors.length ? undefined : (parsed.value as Config);
+  if (config) {
+    checkAfter(config, parsed.lines, errors);
+    checkTargets(config, parsed.lines, warnings);
+    checkPrompts(config, parsed.lines, errors, warnings);
+  }
+
+  byLine(errors);
+  byLine(warnings);
+  return errors.length ? { errors, warnings } : { config, errors, warnings };
+}
+
+/** Read and check a config file. Never throws. */
+export function readConfig(path: string = CONFIG_PATH): ConfigCheck {
+  let source: string;
+  try {
+    source = readFileSync(path, "utf-8");
+  } catch (err: any) {
+    return { errors: [{ path: "", message: err.message }], warnings: [] };
+  }
+  return checkConfigText(source);
+}
+
+/** One line per issue: `config.json:12 agents[0].jobs[1].mode: must be …` */
+export function formatIssue(issue: Issue, file = "config.json"): string {
+  const where = issue.line ? `${file}:${issue.line}` : file;
+  return `${where} ${issue.path ? `${issue.path}: ` : ""}${issue.message}`;
+}
+
+/** Load config.json for a CLI or the daemon — prints problems, exits on errors. */
+export function loadConfig(): Config {
+  if (!existsSync(CONFIG_PATH)) {
+    console.error(
+      `❌ No config.json found. Copy config.example.json to config.json and edit it.`
+    );
+    process.exit(1);
+  }
+
+  const { config, errors, warnings } = readConfig();
+  for (const warning of warnings) console.warn(`⚠️  ${formatIssue(warning)}`);
+  if (!config) {
+    console.error(`❌ Invalid config.json:`);
+    for (const err of errors) console.error(`   ${formatIssue(err)}`);
+    console.error(`\n   Run "bun run validate" after fixing it.`);
+    process.exit(1);
+  }
+  return config;
+}
@@ -0,0 +1,21 @@
+#!/usr/bin/env bun
+/**
+ * Control the running daemon.
+ * Usage: bun run cancel <agent>[/<job>]   (stop the running run; with a job, also its queued runs)
+ *        bun run pause [agent[/job]]       (skip scheduled runs — everything when no target)
+ *        bun run resume [agent[/job]]
+ *        bun run reload                    (re-read config.json now)
+ */
+
+import { requestDaemon, printReply } from "./control.ts";
+
+const [command, ...args] = process.argv.slice(2);
+
+if (!["cancel", "pause", "resume", "reload"].includes(command)) {
+  console.error("Usage: bun run cancel|pause|resume|reload [agent[/job]]");
+  process.exit(1);
+}
+
+const reply = await requestDaemon({ command, args });
+printReply(reply);
+if (!reply.ok) process.exit(1);
@@ -0,0 +1,240 @@
+/**
+ * Control socket — how the CLI talks to the running daemon.
+ *
+ * The daemon listens on a Unix socket (.ocalt.sock, owner-only) and the
+ * `trigger`, `status`, `cancel`, `pause`/`resume` and `reload` commands send
+ * it requests, so they act on the live scheduler instead of working around
+ * it. One request per connection, newline-delimited JSON both ways: the
+ * client writes a request, the daemon writes one or more replies (progress,
+ * then the final one) and closes the connection.
+ */
+
+import { createServer, createConnection, type Server, type Socket } from "net";
+import { chmodSync, existsSync, rmSync } from "fs";
+import { join, resolve } from "path";
+
+// --- Types ---
+export interface ControlRequest {
+  command: string;
+  args: string[];
+  wait?: boolean; // trigger: reply again when the run has finished
+  prompt?: string; // trigger: run with this prompt instead of the job's
+}
+
+export interface ControlReply {
+  ok: boolean;
+  message: string;
+  data?: any;
+}
+
+export type ControlHandler = (
+  request: ControlRequest,
+  reply: (r: ControlReply) => void
+) => Promise<void>;
+
+// --- Paths ---
+const ROOT = resolve(import.meta.dir, "..");
+export const SOCKET_FILE = join(ROOT, ".ocalt.sock");
+
+export const DAEMON_DOWN =
+  `The scheduler isn't running — no daemon is listening on ${SOCKET_FILE}.\n` +
+  `   Start it with "bun run start" (or "bun run start:bg").`;
+
+/** Whether a daemon answers on the socket. */
+function socketAlive(): Promise<boolean> {
+  return new Promise((resolve) => {
+    const socket = createConnection(SOCKET_FILE);
+    socket.once("connect", () => {
+      socket.destroy();
+      resolve(true);
+    });
+    socket.once("error", () => resolve(false));
+  });
+}
+
+// --- Server (daemon) ---
+
+/**
+ * Listen for control requests. Refuses to start while another daemon owns
+ * the socket; a socket file left behind by a crashed daemon is replaced.
+ */
+export async function startControlServer(handler: ControlHandler): Promise<Server> {
+  if (existsSync(SOCKET_FILE)) {
+    if (await socketAlive()) {
+      throw new Error(`another scheduler is already running (${SOCKET_FILE} is in use)`);
+    }
+    rmSync(SOCKET_FILE, { force: true });
+  }
+
+  const server = createServer((socket) => handleConnection(socket, handler));
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(SOCKET_FILE, () => resolve());
+  });
+  chmodSync(SOCKET_FILE, 0o600);
+  return server;
+}
+
+export function stopControlServer(server: Server) {
+  server.close();
+  rmSync(SOCKET_FILE, { force: true });
+}
+
+function handleConnection(socket: Socket, handler: ControlHandler) {
+  let buffer = "";
+  socket.setEncoding("utf-8");
+  socket.on("error", () => {}); // the client went away — nothing to tell it
+
+  socket.on("data", async (chunk) => {
+    buffer += chunk;
+    const newline = buffer.indexOf("\n");
+    if (newline === -1) return;
+    socket.removeAllListeners("data");
+
+    const reply = (r: ControlReply) => {
+      if (!socket.destroyed) socket.write(JSON.stringify(r) + "\n");
+    };
+
+    let request: ControlRequest;
+    try {
+      request = JSON.parse(buffer.slice(0, newline));
+      if (typeof request.command !== "string") throw new Error("missing command");
+      request.args = Array.isArray(request.args) ? request.args.map(String) : [];
+    } catch (err: any) {
+      reply({ ok: false, message: `Bad request: ${err.message}` });
+      socket.end();
+      return;
+    }
+
+    try {
+      await handler(request, reply);
+    } catch (err: any) {
+      reply({ ok: false, message: `${request.command} failed: ${err.message}` });
+    }
+    socket.end();
+  });
+}
+
+// --- Client (CLI) ---
+
+/**
+ * Send a request to the daemon. `onReply` sees every reply as it arrives;
+ * the promise resolves with the last one, or null when no daemon is running.
+ * With `timeoutMs`, a daemon that accepts the connection but doesn't answer
+ * (a wedged event loop) is an error rather than a hang.
+ */
+export function sendControl(
+  request: ControlRequest,
+  onReply?: (r: ControlReply) => void,
+  timeoutMs?: number
+): Promise<ControlReply | null> {
+  return new Promise((resolve, reject) => {
+    const socket = createConnection(SOCKET_FILE);
+    let buffer = "";
+    let last: ControlReply | null = null;
+    let connected = false;
+
+    if (timeoutMs) {
+      socket.setTimeout(timeoutMs, () => {
+        reject(new Error(`no reply within ${timeoutMs / 1000}s`));
+        socket.destroy();
+      });
+    }
+
+    socket.setEncoding("utf-8");
+    socket.once("connect", () => {
+      connected = true;
+      socket.write(JSON.stringify(request) + "\n");
+    });
+
+    socket.on("data", (chunk) => {
+      buffer += chunk;
+      let newline: number;
+      while ((newline = buffer.indexOf("\n")) !== -1) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 1);
+        if (!line.trim()) continue;
+        last = JSON.parse(line) as ControlReply;
+        onReply?.(last);
+      }
+    });
+
+    socket.once("close", () => {
+      if (connected && !last) {
+        reject(new Error("the scheduler closed the connection without replying"));
+      } else if (connected) {
+        resolve(last);
+      }
+    });
+
+    socket.once("error", (err: NodeJS.ErrnoException) => {
+      if (!connected && (err.code === "ENOENT" || err.code === "ECONNREFUSED")) resolve(null);
+      else reject(err);
+    });
+  });
+}
+
+/** A reply's message — failures marked ❌ unless they carry their own emoji. */
+export function formatReply(r: ControlReply): string {
+  if (r.ok || /^\p{Extended_Pictographic}/u.test(r.message)) return r.message;
+  return `❌ ${r.message}`;
+}
+
+/** Print a reply — failures go to stderr. */
+export function printReply(r: ControlReply) {
+  if (r.ok) console.log(formatReply(r));
+  else console.error(formatReply(r));
+}
+
+/** `sendControl` for CLIs: exits with DAEMON_DOWN when the daemon isn't running. */
+export async function requestDaemon(
+  request: ControlRequest,
+  onReply?: (r: ControlReply) => void
+): Promise<ControlReply> {
+  let reply: ControlReply | null;
+  try {
+    reply = await sendControl(request, onReply);
+  } catch (err: any) {
+    console.error(`❌ Couldn't reach the scheduler: ${err.message}`);
+    process.exit(1);
+  }
+  if (!reply) {
+    console.error(`🔴 ${DAEMON_DOWN}`);
+    process.exit(1);
+  }
+  return reply;
+}
+
+// --- Chat commands ---
+// The daemon's handler, for commands typed in Telegram/Discord
+let chatHandler: ControlHandler | undefined;
+
+export function setChatControl(handler: ControlHandler) {
+  chatHandler = handler;
+}
+
+/** Run a request through the daemon's handler (for chat commands) — its first reply. */
+export async function chatControl(request: ControlRequest): Promise<ControlReply> {
+  if (!chatHandler) return { ok: false, message: "the scheduler isn't taking commands yet" };
+  let first: ControlReply | undefined;
+  await chatHandler(request, (r) => (first ??= r));
+  return first ?? { ok: false, message: "no reply" };
+}
+
+/**
+ * If `text` is a control command ("/pause …", "/resume …"), run it through
+ * the daemon's handler and return the reply. In an agent's Discord channel
+ * (`defaultAgent`) a bare job name means that agent's job, and no target the
+ * agent itself; "all" always means everything.
+ */
+export async function handleControlCommand(text: string, defaultAgent?: string): Promise<string | undefined> {
+  const match = text.trim().match(/^\/(pause|resume)(?:@\w+)?(?:\s+(\S+))?\s*$/);
+  if (!match || !chatHandler) return undefined;
+
+  let target: string | undefined = match[2];
+  if (target === "all") target = undefined;
+  else if (defaultAgent && !target) target = defaultAgent;
+  else if (defaultAgent && !target.includes("/")) target = `${defaultAgent}/${target}`;
+
+  return formatReply(await chatControl({ command: match[1], args: target ? [target] : [] }));
+}
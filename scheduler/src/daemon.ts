@@ -11,100 +11,107 @@
 
 import { CronJob } from "cron";
 import { execSync } from "child_process";
-import { readFileSync, mkdirSync, existsSync, writeFileSync } from "fs";
+import { readFileSync, mkdirSync, existsSync, writeFileSync, appendFileSync, statSync, rmSync, watch } from "fs";
 import { join, resolve } from "path";
 import { homedir } from "os";
 import {
   sendAgentMessage as sendTelegramMessage,
+  sendSystemMessage as sendTelegramSystemMessage,
+  sendFiles as sendTelegramFiles,
   startTelegramListener,
-  type TelegramConfig,
+  setTelegramAgents,
+  progressTarget as telegramProgressTarget,
 } from "./channels/telegram.ts";
 import {
   sendAgentMessage as sendDiscordMessage,
+  sendSystemMessage as sendDiscordSystemMessage,
+  sendFiles as sendDiscordFiles,
   startDiscordListener,
+  setDiscordAgents,
   getOrCreateChannels,
-  type DiscordConfig,
+  progressTarget as discordProgressTarget,
 } from "./channels/discord.ts";
 import {
   buildSharedContext,
   postToDropFolder,
   generateAgentInstructions,
-  type InteragentConfig,
 } from "./channels/interagent.ts";
-
-// --- Types ---
-interface Job {
-  name: string;
-  schedule: string;
-  mode: "continue" | "fresh";
-  prompt: string;
-  telegram?: boolean;
-  discord?: boolean;
-  suppressIfMatch?: string;
-  interactive?: boolean;
-  timeout?: number;
-  allowedTools?: string;
-}
-
-interface Agent {
-  name: string;
-  description?: string;
-  workdir: string;
-  claudeProfile?: string;
-  jobs: Job[];
-  allowedTools?: string;
-  timeout?: number;
-}
-
-interface Config {
-  telegram?: TelegramConfig & { enabled?: boolean };
-  discord?: DiscordConfig & { enabled?: boolean };
-  interagent?: InteragentConfig;
-  agents: Agent[];
-}
+import { stopProcessTree, isAlive, DEFAULT_KILL_GRACE, type StopReason } from "./process.ts";
+import {
+  submit,
+  cancel,
+  pending,
+  snapshot,
+  closeQueue,
+  idle,
+  interruptAll,
+  runningCount,
+  SHUTDOWN,
+  type RunSource,
+  type ConcurrencyPolicy,
+} from "./queue.ts";
+import { setChatWorkers, DEFAULT_CHAT_WORKERS } from "./workers.ts";
+import { setAttachments } from "./inbox.ts";
+import {
+  dependenciesOf,
+  registerPipelines,
+  recordOutcome,
+  upstreamContext,
+} from "./pipeline.ts";
+import { resolveRetry, shouldRetry, retryDelay } from "./retry.ts";
+import {
+  missedFirings,
+  firingsToCatchUp,
+  DEFAULT_CATCH_UP_LIMIT,
+} from "./catchup.ts";
+import { diffConfigs, describeDiff } from "./reload.ts";
+import { parseStreamResult, describeResult, type RunResult } from "./result.ts";
+import { jobSession, resumeArgs, recordSession } from "./sessions.ts";
+import { loadConfig, readConfig, formatIssue, type Config, type Agent, type Job } from "./config.ts";
+import {
+  startRun,
+  finishRun,
+  setNextRetry,
+  lastFinished,
+  getRun,
+  unfinishedRuns,
+  statusEmoji,
+  type FinishedStatus,
+} from "./store.ts";
+import {
+  startControlServer,
+  stopControlServer,
+  setChatControl,
+  type ControlRequest,
+  type ControlReply,
+} from "./control.ts";
+import { startHttpServer } from "./http.ts";
+import {
+  overdueJobs,
+  trackOverdue,
+  describeOverdue,
+  writeHeartbeat,
+  clearHeartbeat,
+  HEARTBEAT_INTERVAL_MS,
+  DEADLINE_CHECK_MS,
+} from "./watchdog.ts";
+import { isPaused, pause, resume, pausedTargets } from "./pauses.ts";
+import { activeMaintenance, quietUntil, describeWindow } from "./windows.ts";
+import { hold, heldCount, heldNotices, release } from "./held.ts";
+import { renderTemplate, redactEnv, usesUpstream } from "./template.ts";
+import { startLiveProgress, type LiveTarget } from "./live.ts";
+import { extractMarkers, collectArtifacts, describeSkipped, type Artifact } from "./artifacts.ts";
 
 // --- Paths ---
 const ROOT = import.meta.dir.replace("/src", "");
-const CONFIG_PATH = join(ROOT, "config.json");
 const LOGS_DIR = join(ROOT, "logs");
-const STATE_FILE = join(ROOT, ".state.json");
 const TMUX_SESSION = "ocalt";
 
-// --- State ---
-interface JobState {
-  lastRun?: string;
-  lastStatus?: "ok" | "error" | "timeout" | "suppressed";
-  lastDuration?: number;
-  runCount: number;
-}
-
-function loadState(): Record<string, JobState> {
-  try {
-    return JSON.parse(readFileSync(STATE_FILE, "utf-8"));
-  } catch {
-    return {};
-  }
-}
-
-function saveState(state: Record<string, JobState>) {
-  writeFileSync(STATE_FILE, JSON.stringify(state, null, 2));
-}
-
 function expandPath(p: string): string {
   if (p.startsWith("~/")) return join(homedir(), p.slice(2));
   return resolve(p);
 }
 
-function loadConfig(): Config {
-  if (!existsSync(CONFIG_PATH)) {
-    console.error(
-      `❌ No config.json found. Copy config.example.json to config.json and edit it.`
-    );
-    process.exit(1);
-  }
-  return JSON.parse(readFileSync(CONFIG_PATH, "utf-8"));
-}
-
 // --- tmux ---
 function ensureTmuxSession() {
   try {
@@ -155,37 +162,179 @@ function ensureAgentWorkspace(agent: Agent, config: Config, allAgents: Agent[])
         `You are the "${agent.name}" agent. You work in this directory.\n` +
         `Check your project files for context before starting any task.\n` +
         `Write results, notes, and logs to files in this directory.\n` +
+        `To send a file you wrote to chat, end your answer with a line \`ATTACH: path/to/file\`.\n` +
         interagentInstructions
     );
     console.log(`   📝 Created CLAUDE.md for ${agent.name}`);
   }
 }
 
+// --- Notifications ---
+/**
+ * Send a job's notification, and any `files` it produced — or, during
+ * quiet hours, hold them until they end. Manual runs are someone waiting
+ * for the answer, so they're never held.
+ */
+async function notify(
+  agent: Agent,
+  job: Job,
+  config: Config,
+  discordChannelMap: Record<string, string> | undefined,
+  text: string,
+  source: RunSource = "manual",
+  files: Artifact[] = []
+) {
+  if (source !== "manual" && quietUntil(config.quietHours)) {
+    hold({ agent: agent.name, job: job.name, text, files: files.length ? files : undefined });
+    console.log(`   🌙 ${agent.name}/${job.name} notification held for after quiet hours`);
+    return;
+  }
+  await sendNotification(agent, job, config, discordChannelMap, text, files);
+}
+
+async function sendNotification(
+  agent: Agent,
+  job: Job,
+  config: Config,
+  discordChannelMap: Record<string, string> | undefined,
+  text: string,
+  files: Artifact[] = []
+) {
+  const session = jobSession(job);
+  if (job.telegram !== false && config.telegram?.enabled && config.telegram.botToken) {
+    if (text) await sendTelegramMessage(config.telegram, agent.name, job.name, text, session);
+    if (files.length) await sendTelegramFiles(config.telegram, agent.name, job.name, files, session);
+  }
+
+  if (job.discord !== false && config.discord?.enabled && config.discord.botToken && discordChannelMap) {
+    if (text) {
+      await sendDiscordMessage(config.discord, discordChannelMap, agent.name, job.name, text, session);
+    }
+    if (files.length) {
+      await sendDiscordFiles(config.discord, discordChannelMap, agent.name, job.name, files, session);
+    }
+  }
+}
+
+/**
+ * Where a job with `progress: true` shows its live progress (see live.ts) —
+ * the channels it notifies, unless their `progress` is off. Like
+ * notifications, none during quiet hours unless the run was started by hand.
+ */
+function progressTargets(
+  agent: Agent,
+  job: Job,
+  config: Config,
+  discordChannelMap: Record<string, string> | undefined,
+  source: RunSource
+): LiveTarget[] {
+  if (!job.progress || (source !== "manual" && quietUntil(config.quietHours))) return [];
+  const targets: Array<LiveTarget | undefined> = [];
+  const { telegram, discord } = config;
+  if (job.telegram !== false && telegram?.enabled && telegram.botToken && telegram.progress !== false) {
+    targets.push(telegramProgressTarget(telegram, agent.name, jobSession(job)));
+  }
+  if (
+    job.discord !== false &&
+    discord?.enabled &&
+    discord.botToken &&
+    discord.progress !== false &&
+    discordChannelMap
+  ) {
+    targets.push(discordProgressTarget(discord, discordChannelMap, agent.name, jobSession(job)));
+  }
+  return targets.filter((t): t is LiveTarget => !!t);
+}
+
 // --- Job runner ---
+interface RunOptions {
+  signal?: AbortSignal;
+  source?: RunSource; // what started the run (default "manual")
+  attempt?: number; // 1 for the first try, 2+ for retries
+  scheduledFor?: Date; // set for catch-up runs: the missed firing time
+  onStart?: (runId: number) => void; // called as each attempt starts
+}
+
+const COMPLETE_RE = /--- JOB COMPLETE \(exit (\d+)\) ---/;
+// The rendered prompt heads each run's log, ending with this line
+const PROMPT_END = "--- END PROMPT ---";
+
+function shellQuote(s: string): string {
+  return `'${s.replace(/'/g, "'\\''")}'`;
+}
+
+/** Last `lines` lines of `text`, capped at `maxChars`. */
+function tail(text: string, lines: number, maxChars: number): string {
+  return text.split("\n").slice(-lines).join("\n").slice(-maxChars);
+}
+
 async function runJob(
   agent: Agent,
   job: Job,
   config: Config,
-  discordChannelMap?: Record<string, string>
-): Promise<void> {
+  discordChannelMap?: Record<string, string>,
+  opts: RunOptions = {}
+): Promise<{ status: FinishedStatus; runId: number }> {
+  const { signal, attempt = 1, scheduledFor, source = "manual", onStart } = opts;
   const stateKey = `${agent.name}/${job.name}`;
-  const state = loadState();
-  const jobState: JobState = state[stateKey] || { runCount: 0 };
+  const session = jobSession(job);
+  const retry = resolveRetry(agent.retry, job.retry);
+  const attemptLabel = retry.attempts > 1 ? ` (attempt ${attempt}/${retry.attempts})` : "";
   const startTime = Date.now();
   const timestamp = new Date()
     .toISOString()
     .replace(/[:.]/g, "-")
     .slice(0, 19);
-  const logFile = join(LOGS_DIR, `${agent.name}-${job.name}-${timestamp}.log`);
+  const logBase = join(LOGS_DIR, `${agent.name}-${job.name}-${timestamp}`);
+  const logFile = `${logBase}.log`;
+  const jsonlFile = `${logBase}.jsonl`;
+  const errFile = `${logBase}.err`;
+  const scriptFile = `${logBase}.sh`;
+  const pidFile = `${logBase}.pid`;
+  const promptFile = `${logBase}.prompt`;
   const windowName = `${agent.name}-${job.name}`;
   const workdir = expandPath(agent.workdir);
+  const runId = startRun({
+    agent: agent.name,
+    job: job.name,
+    source,
+    session,
+    attempt,
+    scheduledFor,
+    logPath: logFile,
+  });
+  onStart?.(runId);
 
   console.log(
-    `\n🚀 [${new Date().toLocaleTimeString()}] ${agent.name}/${job.name} (${job.mode})`
+    `\n🚀 [${new Date().toLocaleTimeString()}] ${agent.name}/${job.name} (${job.mode})${attemptLabel}`
   );
 
-  // Build prompt — optionally inject shared context from other agents
-  let prompt = job.prompt;
+  // Build prompt — fill in the template, then optionally inject shared context from other agents
+  let prompt: string;
+  const env: Record<string, string> = {}; // {{env:…}} values, kept out of the log
+  try {
+    prompt = renderTemplate(
+      job.prompt,
+      {
+        agent: agent.name,
+        job: job.name,
+        workdir: agent.workdir,
+        timezone: job.timezone ?? agent.timezone,
+        after: job.after,
+      },
+      { attempt, env }
+    );
+  } catch (err: any) {
+    const message = `Prompt template: ${err.message}`;
+    console.log(`   ❌ ${agent.name}/${job.name} failed — ${message}`);
+    writeFileSync(logFile, `=== ${agent.name}/${job.name} [${job.mode}] ${new Date().toString()} ===\n${message}\n`);
+    finishRun(runId, { status: "error", duration: (Date.now() - startTime) / 1000, error: message });
+    if (!shouldRetry(retry, "error", attempt)) {
+      await notify(agent, job, config, discordChannelMap, `❌ Failed — ${message}${attemptLabel}`, source);
+    }
+    return { status: "error", runId };
+  }
+
   if (config.interagent?.sharedDir) {
     const sharedChannels = config.interagent.discordSharedChannels || ["handoff", "findings", "standup"];
     const sharedContext = buildSharedContext(config.interagent, sharedChannels, 24);
@@ -194,119 +343,215 @@ async function runJob(
     }
   }
 
-  // Build claude command
-  const args: string[] = ["-p", prompt];
-  if (job.mode === "continue") args.push("--continue");
+  if (scheduledFor) {
+    prompt =
+      `${prompt}\n\n---\nNote: this is a catch-up run for the firing scheduled at ` +
+      `${scheduledFor.toISOString()}, which was missed while the scheduler was down.`;
+  }
+
+  // Pipelines — pass along the output of the jobs this one runs after,
+  // unless the prompt already placed it
+  const upstream = usesUpstream(job.prompt) ? "" : upstreamContext(stateKey);
+  if (upstream) {
+    prompt = `${prompt}\n\n---\n${upstream}`;
+  }
+
+  // Build claude command — the prompt is read from a file by the run
+  // script, so it isn't kept in the script itself
+  const args: string[] = ["--output-format", "stream-json", "--verbose"];
+  // `continue` jobs resume their named session; `fresh` jobs start a new one
+  // (still recorded, so a chat reply to the report can follow up on it)
+  if (job.mode === "continue") args.push(...resumeArgs(agent.name, session));
   if (job.allowedTools || agent.allowedTools) {
     args.push("--allowedTools", job.allowedTools || agent.allowedTools!);
   }
 
-  const claudeCmd = `claude ${args
-    .map((a) => `'${a.replace(/'/g, "'\\''")}'`)
-    .join(" ")}`;
-  const fullCmd = [
-    `cd '${workdir}'`,
-    `echo "=== ${agent.name}/${job.name} [${job.mode}] $(date) ===" | tee '${logFile}'`,
-    `${claudeCmd} 2>&1 | tee -a '${logFile}'`,
-    job.interactive ? "" : `echo "--- JOB COMPLETE ---" | tee -a '${logFile}'`,
-  ]
-    .filter(Boolean)
-    .join(" && ");
+  // The run script records its PID (so a timeout can stop the whole tree)
+  // and claude's exit code in the sentinel line, and mirrors stderr to its
+  // own file, so failures are told apart from timeouts. The raw stream-json
+  // events go to the .jsonl file; the window and .log get readable progress.
+  // The prompt file is private to the user and deleted as soon as it's read.
+  const claudeCmd = `claude -p "$PROMPT" ${args.map(shellQuote).join(" ")}`;
+  const progressCmd = `${shellQuote(process.execPath)} ${shellQuote(join(import.meta.dir, "progress.ts"))}`;
+  const header = `=== ${agent.name}/${job.name} [${job.mode}] ${new Date().toString()} ===`;
+  const logHead = `${header}\n--- PROMPT ---\n${redactEnv(prompt, env)}\n${PROMPT_END}\n`;
+  writeFileSync(logFile, logHead);
+  writeFileSync(promptFile, prompt, { mode: 0o600 });
+  // What the run wrote, after the prompt — which may contain anything, the sentinel line included
+  const runLog = (content: string) => content.slice(logHead.length);
+  const script = [
+    `#!/usr/bin/env bash`,
+    `echo $$ > ${shellQuote(pidFile)}`,
+    `PROMPT=$(cat ${shellQuote(promptFile)}); rm -f ${shellQuote(promptFile)}`,
+    `echo ${shellQuote(header)}`,
+    `cd ${shellQuote(workdir)} && ${claudeCmd} 2> >(tee ${shellQuote(errFile)} >&2) | tee ${shellQuote(jsonlFile)} | ${progressCmd} | tee -a ${shellQuote(logFile)}`,
+    `code=\${PIPESTATUS[0]}`,
+    `echo "--- JOB COMPLETE (exit $code) ---" | tee -a ${shellQuote(logFile)}`,
+    "",
+  ].join("\n");
+  writeFileSync(scriptFile, script, { mode: 0o755 });
 
   ensureTmuxSession();
 
   if (tmuxWindowExists(windowName)) {
     execSync(
-      `tmux send-keys -t ${TMUX_SESSION}:${windowName} '${fullCmd.replace(
-        /'/g,
-        "'\\''"
-      )}' Enter`
+      `tmux send-keys -t ${TMUX_SESSION}:${windowName} ${shellQuote(
+        `bash ${shellQuote(scriptFile)}`
+      )} Enter`
     );
   } else {
+    const windowCmd = `bash ${shellQuote(scriptFile)}; ${
+      job.interactive ? "exec bash" : "sleep 2"
+    }`;
     execSync(
-      `tmux new-window -t ${TMUX_SESSION} -n ${windowName} "bash -c \\"${fullCmd.replace(
-        /"/g,
-        '\\\\\\"'
-      )}; ${job.interactive ? "bash" : "sleep 2"}\\""` 
+      `tmux new-window -t ${TMUX_SESSION} -n ${windowName} ${shellQuote(windowCmd)}`
     );
   }
 
-  // Wait for completion
-  return new Promise<void>((resolve) => {
-    const timeoutMs = (job.timeout || agent.timeout || 120) * 1000;
+  // Follow the run's events in chat, if the job asks for it
+  const targets = progressTargets(agent, job, config, discordChannelMap, source);
+  const live = startLiveProgress(`${stateKey}${attemptLabel}`, targets);
+  let jsonlRead = 0;
+  const feedProgress = () => {
+    if (!targets.length) return;
+    try {
+      const data = readFileSync(jsonlFile);
+      const end = data.lastIndexOf(10) + 1; // whole lines only
+      if (end <= jsonlRead) return;
+      data.subarray(jsonlRead, end).toString("utf-8").split("\n").forEach(live.feed);
+      jsonlRead = end;
+    } catch {}
+  };
+
+  // Wait for completion, timeout or cancellation
+  return new Promise((resolve) => {
+    const timeoutSec = job.timeout || agent.timeout || 120;
+    const timeoutMs = timeoutSec * 1000;
+    const graceMs = (job.killGrace ?? agent.killGrace ?? DEFAULT_KILL_GRACE) * 1000;
     let elapsed = 0;
+    let finished = false;
     const pollInterval = 3000;
 
-    const poll = setInterval(async () => {
-      elapsed += pollInterval;
+    const finish = async (outcome: "complete" | "timeout" | "cancelled" | "interrupted") => {
+      if (finished) return;
+      finished = true;
+      clearInterval(poll);
+      signal?.removeEventListener("abort", onAbort);
+      rmSync(promptFile, { force: true }); // in case the script never got to it
+
+      // A channel that's down is logged — it mustn't leave the run unfinished
+      const tell = async (text: string, files?: Artifact[]) => {
+        try {
+          await notify(agent, job, config, discordChannelMap, text, source, files);
+        } catch (err) {
+          console.error(`Notification error (${stateKey}):`, err);
+        }
+      };
+
+      const duration = (Date.now() - startTime) / 1000;
+      let status: FinishedStatus = "error";
+      let exitCode: number | undefined;
+      let stoppedBy: StopReason | undefined;
+      let output = "";
+      let error: string | undefined;
+      let result: RunResult | undefined;
 
-      let logContent = "";
       try {
-        logContent = readFileSync(logFile, "utf-8");
-      } catch {}
+        let logContent = "";
+        try {
+          logContent = readFileSync(logFile, "utf-8");
+        } catch {}
 
-      const isComplete =
-        logContent.includes("--- JOB COMPLETE ---") || elapsed >= timeoutMs;
+        let jsonl = "";
+        try {
+          jsonl = readFileSync(jsonlFile, "utf-8");
+        } catch {}
 
-      if (isComplete) {
-        clearInterval(poll);
-        const duration = (Date.now() - startTime) / 1000;
-        const output = logContent.replace("--- JOB COMPLETE ---", "").trim();
+        const sentinel = runLog(logContent).match(COMPLETE_RE);
+        exitCode = sentinel ? Number(sentinel[1]) : undefined;
+        result = parseStreamResult(jsonl);
+        // Channels get claude's final answer; the progress log is the fallback.
+        // "ATTACH:" lines name files to send along (see artifacts.ts)
+        const progress = runLog(logContent);
+        const extracted = extractMarkers(result ? result.text : progress.replace(COMPLETE_RE, "").trim());
+        output = extracted.text;
+        const summary = result ? describeResult(result) : "";
+        if (result?.sessionId) recordSession(agent.name, session, result.sessionId);
 
-        const shouldSuppress =
-          job.suppressIfMatch && output.includes(job.suppressIfMatch);
+        if (outcome !== "complete") {
+          let pid = 0;
+          try {
+            pid = Number(readFileSync(pidFile, "utf-8").trim());
+          } catch {}
+          stoppedBy = pid ? await stopProcessTree(pid, graceMs) : "exited";
+          appendFileSync(logFile, `\n--- JOB STOPPED (${outcome}, ${stoppedBy}) ---\n`);
+        }
 
-        if (shouldSuppress) {
-          console.log(
-            `   ⏭️  ${agent.name}/${job.name} suppressed [${duration.toFixed(1)}s]`
+        if (outcome === "cancelled") {
+          console.log(`   🚫 ${agent.name}/${job.name} cancelled — stopped (${stoppedBy})`);
+          status = "cancelled";
+        } else if (outcome === "interrupted") {
+          console.log(`   ⏹️  ${agent.name}/${job.name} interrupted — stopped (${stoppedBy})`);
+          status = "interrupted";
+          await tell(
+            `⏹️ Interrupted after ${duration.toFixed(1)}s — the scheduler shut down (stopped with ${stoppedBy!.toUpperCase()})`
           );
-          jobState.lastStatus = "suppressed";
-        } else if (elapsed >= timeoutMs) {
-          console.log(`   ⏰ ${agent.name}/${job.name} timed out`);
-          jobState.lastStatus = "timeout";
-
-          // Notify on timeout
-          if (job.telegram !== false && config.telegram?.enabled && config.telegram.botToken) {
-            await sendTelegramMessage(
-              config.telegram,
-              agent.name,
-              job.name,
-              `⏰ Timed out after ${job.timeout || agent.timeout || 120}s`
+        } else if (outcome === "timeout") {
+          console.log(`   ⏰ ${agent.name}/${job.name} timed out — stopped (${stoppedBy})`);
+          status = "timeout";
+
+          // Intermediate failures stay quiet — only the final outcome is sent
+          if (!shouldRetry(retry, status, attempt)) {
+            await tell(
+              `⏰ Timed out after ${timeoutSec}s — stopped with ${stoppedBy!.toUpperCase()}${attemptLabel}`
             );
           }
-        } else {
+        } else if (exitCode !== 0 || result?.isError) {
+          let stderr = "";
+          try {
+            stderr = readFileSync(errFile, "utf-8");
+          } catch {}
+          const errorTail = tail(stderr.trim() || output, 20, 1500);
+          const reason = exitCode !== 0 ? `exit ${exitCode}` : result!.subtype;
+
           console.log(
-            `   ✅ ${agent.name}/${job.name} [${duration.toFixed(1)}s, ${output.length} chars]`
+            `   ❌ ${agent.name}/${job.name} failed (${reason}) [${duration.toFixed(1)}s]`
           );
-          jobState.lastStatus = "ok";
-
-          // Send to Telegram
-          if (job.telegram !== false && config.telegram?.enabled && config.telegram.botToken && output) {
-            await sendTelegramMessage(
-              config.telegram,
-              agent.name,
-              job.name,
-              output
-            );
-          }
+          status = "error";
+          error = errorTail;
 
-          // Send to Discord
-          if (job.discord !== false && config.discord?.enabled && config.discord.botToken && discordChannelMap && output) {
-            await sendDiscordMessage(
-              config.discord,
-              discordChannelMap,
-              agent.name,
-              job.name,
-              output
+          if (!shouldRetry(retry, status, attempt)) {
+            await tell(
+              `❌ Failed (${reason}) after ${duration.toFixed(1)}s${attemptLabel}` +
+                (errorTail ? `\n\n${errorTail}` : "")
             );
           }
+        } else if (job.suppressIfMatch && output.includes(job.suppressIfMatch)) {
+          console.log(
+            `   ⏭️  ${agent.name}/${job.name} suppressed [${duration.toFixed(1)}s]`
+          );
+          status = "suppressed";
+        } else {
+          console.log(
+            `   ✅ ${agent.name}/${job.name} [${duration.toFixed(1)}s, ${output.length} chars` +
+              `${summary ? ` · ${summary}` : ""}]`
+          );
+          status = "ok";
+
+          const { files, skipped } = collectArtifacts(agent.workdir, job.artifacts, extracted.paths, startTime);
+          if (files.length) console.log(`   📎 ${files.map((f) => f.name).join(", ")}`);
+          const text = [output, describeSkipped(skipped)].filter(Boolean).join("\n\n");
+          if (text || files.length) await tell(text, files);
         }
 
-        jobState.lastRun = new Date().toISOString();
-        jobState.lastDuration = duration;
-        jobState.runCount++;
-        state[stateKey] = jobState;
-        saveState(state);
+        feedProgress();
+        await live.finish(`${statusEmoji(status)} ${status}`);
+      } catch (err: any) {
+        console.error(`Run finish error (${stateKey}):`, err);
+        error ??= err.message;
+      } finally {
+        // Whatever went wrong above, the run is recorded and its lane freed
+        finishRun(runId, { status, duration, exitCode, stoppedBy, output, error, result });
 
         if (!job.interactive) {
           try {
@@ -316,16 +561,688 @@ async function runJob(
           } catch {}
         }
 
-        resolve();
+        resolve({ status, runId });
       }
+    };
+
+    // Nothing finish() throws may go unhandled — the lane waits on resolve()
+    const end = (outcome: Parameters<typeof finish>[0]) =>
+      finish(outcome).catch((err) => console.error(`Run finish error (${stateKey}):`, err));
+
+    const poll = setInterval(() => {
+      elapsed += pollInterval;
+      feedProgress();
+
+      let logContent = "";
+      try {
+        logContent = readFileSync(logFile, "utf-8");
+      } catch {}
+
+      if (COMPLETE_RE.test(runLog(logContent))) end("complete");
+      else if (elapsed >= timeoutMs) end("timeout");
     }, pollInterval);
+
+    const onAbort = () => end(signal?.reason === SHUTDOWN ? "interrupted" : "cancelled");
+    signal?.addEventListener("abort", onAbort);
+  });
+}
+
+// --- Scheduling ---
+type EnqueueOutcome = FinishedStatus | "skipped" | "paused" | "maintenance" | "deferred";
+
+interface EnqueueOptions extends Omit<RunOptions, "signal" | "source"> {
+  onDone?: (outcome: EnqueueOutcome, runId?: number) => void; // final outcome, after retries
+  concurrency?: ConcurrencyPolicy; // instead of the job's own policy
+}
+
+// Runs held back by a "defer" maintenance window, one per job ("agent/job" →)
+const deferred = new Map<string, Date>();
+
+// Retries waiting out their backoff (failed run's id →)
+const pendingRetries = new Map<number, ReturnType<typeof setTimeout>>();
+
+/**
+ * Queue a run of `job` on its agent's lane. A failed attempt is re-queued
+ * after its backoff delay (the lane is free meanwhile); once the run has a
+ * final outcome, any pipeline jobs whose dependencies it completed are queued.
+ * Paused jobs and jobs in a maintenance window only run when triggered by
+ * hand; a deferring window queues one run of the job for when it ends.
+ */
+function enqueueJob(
+  agent: Agent,
+  job: Job,
+  config: Config,
+  discordChannelMap: Record<string, string> | undefined,
+  source: RunSource,
+  opts: EnqueueOptions = {}
+) {
+  const { onDone, concurrency, ...runOpts } = opts;
+  const attempt = opts.attempt ?? 1;
+  const stateKey = `${agent.name}/${job.name}`;
+  if (source !== "manual" && isPaused(agent.name, job.name)) {
+    console.log(`   ⏸️  ${stateKey} (${source}) skipped — paused`);
+    onDone?.("paused");
+    return;
+  }
+
+  const maintenance = source !== "manual" && activeMaintenance(config.maintenance, agent.name, job.name);
+  if (maintenance) {
+    const { window, until } = maintenance;
+    const label = describeWindow(window);
+    if (window.action !== "defer") {
+      console.log(`   🚧 ${stateKey} (${source}) skipped — ${label}`);
+      onDone?.("maintenance");
+    } else if (deferred.has(stateKey)) {
+      console.log(`   🚧 ${stateKey} (${source}) already deferred until ${until.toLocaleTimeString()} — ${label}`);
+      onDone?.("deferred");
+    } else {
+      console.log(`   🚧 ${stateKey} (${source}) deferred until ${until.toLocaleTimeString()} — ${label}`);
+      deferred.set(stateKey, until);
+      setTimeout(() => {
+        deferred.delete(stateKey);
+        const found = findJob(stateKey);
+        if (!found) return;
+        enqueueJob(found.agent, found.job, activeConfig, discordChannels, source, { ...runOpts, concurrency });
+      }, until.getTime() - Date.now());
+      onDone?.("deferred");
+    }
+    return;
+  }
+
+  submit(
+    agent.name,
+    {
+      label: attempt > 1 ? `${job.name} (attempt ${attempt})` : job.name,
+      job: job.name,
+      source,
+      run: async (signal) => {
+        const { status, runId } = await runJob(agent, job, config, discordChannelMap, {
+          ...runOpts,
+          source,
+          signal,
+        });
+
+        // Follow-ups go by the config as it is now — a reload may have
+        // changed or removed the job while it ran or waited to retry
+        const current = findJob(stateKey);
+        const retry = resolveRetry(current?.agent.retry, current?.job.retry);
+        if (current && shouldRetry(retry, status, attempt)) {
+          const delay = retryDelay(retry, attempt);
+          setNextRetry(runId, new Date(Date.now() + delay * 1000));
+          console.log(
+            `   🔁 ${stateKey} ${status} on attempt ${attempt}/${retry.attempts} — retrying in ${delay}s`
+          );
+          const timer = setTimeout(() => {
+            pendingRetries.delete(runId);
+            const found = findJob(stateKey);
+            if (!found) {
+              console.log(`   🔁 ${stateKey} retry dropped — no longer in the config`);
+              return onDone?.(status, runId);
+            }
+            enqueueJob(found.agent, found.job, activeConfig, discordChannels, source, {
+              ...opts,
+              attempt: attempt + 1,
+            });
+          }, delay * 1000);
+          pendingRetries.set(runId, timer);
+          return;
+        }
+
+        onDone?.(status, runId);
+        for (const key of recordOutcome(stateKey, status)) {
+          const next = findJob(key);
+          if (next) {
+            console.log(`   🔗 ${key} triggered by ${agent.name}/${job.name} (${status})`);
+            enqueueJob(next.agent, next.job, activeConfig, discordChannels, "pipeline");
+          }
+        }
+      },
+    },
+    concurrency || job.concurrency || agent.concurrency
+  ).then((result) => {
+    if (result !== "done") onDone?.(result === "cancelled" ? "cancelled" : "skipped");
+  });
+}
+
+// --- Runtime ---
+// The live config and Discord channel map — both are swapped on reload
+let activeConfig: Config;
+let discordChannels: Record<string, string> | undefined;
+const cronJobs = new Map<string, { cron: CronJob; schedule: string }>(); // "agent/job" →
+
+function findJob(key: string): { agent: Agent; job: Job } | undefined {
+  const [agentName, jobName] = key.split("/");
+  const agent = activeConfig.agents.find((a) => a.name === agentName);
+  const job = agent?.jobs.find((j) => j.name === jobName);
+  return agent && job ? { agent, job } : undefined;
+}
+
+function agentInfos(config: Config) {
+  return config.agents.map((a) => ({
+    name: a.name,
+    workdir: a.workdir,
+    description: a.description,
+    jobs: a.jobs.map((j) => j.name),
+    allowedTools: a.allowedTools,
+    timeout: a.timeout,
+    killGrace: a.killGrace,
+  }));
+}
+
+/**
+ * Bring the registered CronJobs in line with the active config: stop the
+ * ones whose job is gone or was rescheduled, start the missing ones. Cron
+ * callbacks look their job up when they fire, so other edits apply as-is.
+ */
+function syncCronJobs() {
+  const wanted = new Map<string, string>();
+  for (const agent of activeConfig.agents) {
+    for (const job of agent.jobs) {
+      if (job.schedule) wanted.set(`${agent.name}/${job.name}`, job.schedule);
+    }
+  }
+
+  for (const [key, entry] of cronJobs) {
+    if (wanted.get(key) !== entry.schedule) {
+      entry.cron.stop();
+      cronJobs.delete(key);
+    }
+  }
+
+  for (const [key, schedule] of wanted) {
+    if (cronJobs.has(key)) continue;
+    const cron = new CronJob(
+      schedule,
+      () => {
+        const found = findJob(key);
+        if (found) enqueueJob(found.agent, found.job, activeConfig, discordChannels, "cron");
+      },
+      null,
+      true
+    );
+    cronJobs.set(key, { cron, schedule });
+  }
+}
+
+// --- System messages ---
+/** Log a daemon-level notice and send it to every enabled channel (or hold it during quiet hours). */
+async function reportSystem(title: string, text: string) {
+  console.log(`\n${text}\n`);
+  if (quietUntil(activeConfig.quietHours)) {
+    hold({ title, text });
+    return;
+  }
+  await sendSystem(title, text);
+}
+
+async function sendSystem(title: string, text: string) {
+  try {
+    await postSystem(title, text);
+  } catch (err) {
+    console.error(`System message error (${title}):`, err);
+  }
+}
+
+/** Send a scheduler notice to every enabled channel. Throws when a channel can't be reached. */
+async function postSystem(title: string, text: string) {
+  const config = activeConfig;
+  if (config.telegram?.enabled && config.telegram.botToken) {
+    await sendTelegramSystemMessage(config.telegram, title, text);
+  }
+  if (config.discord?.enabled && config.discord.botToken && discordChannels) {
+    await sendDiscordSystemMessage(config.discord, discordChannels, title, text);
+  }
+}
+
+// --- Quiet hours ---
+let sendingHeld = false;
+
+/**
+ * Once quiet hours are over, send what was held: a header, then each notice
+ * as it would have been. A notice is only let go once it's sent — what
+ * fails stays held for the next try a minute later.
+ */
+async function sendHeld() {
+  if (sendingHeld || heldCount() === 0 || quietUntil(activeConfig.quietHours)) return;
+  sendingHeld = true;
+  try {
+    const notices = heldNotices();
+    console.log(`🌅 Quiet hours over — sending ${notices.length} held notification(s)`);
+    try {
+      await postSystem("quiet hours", `🌅 Quiet hours are over — ${notices.length} held notification(s) follow`);
+    } catch (err) {
+      console.error("Held notifications error — keeping them for the next try:", err);
+      return;
+    }
+
+    let failed = 0;
+    for (const notice of notices) {
+      const when = `🕑 ${new Date(notice.at).toLocaleString()}\n`;
+      const found = notice.agent && notice.job ? findJob(`${notice.agent}/${notice.job}`) : undefined;
+      try {
+        if (found) {
+          await sendNotification(
+            found.agent,
+            found.job,
+            activeConfig,
+            discordChannels,
+            when + notice.text,
+            notice.files
+          );
+        } else {
+          // A scheduler notice, or a job that has since been removed
+          await postSystem(notice.title || `${notice.agent}/${notice.job}`, when + notice.text);
+        }
+        release(notice);
+      } catch (err) {
+        failed++;
+        console.error("Held notification error:", err);
+      }
+    }
+    if (failed) console.log(`   🌙 ${failed} held notification(s) not sent — trying again in a minute`);
+  } finally {
+    sendingHeld = false;
+  }
+}
+
+// --- Deadlines ---
+/** Alert once when a job misses its `expectSuccessWithin`, and again when it recovers. */
+async function checkDeadlines() {
+  const overdue = overdueJobs(activeConfig.agents, startedAt, new Date(), isPaused);
+  const { lapsed, recovered } = trackOverdue(overdue);
+  for (const o of lapsed) {
+    await reportSystem("missed deadline", describeOverdue(o));
+  }
+  for (const o of recovered) {
+    await reportSystem("deadline", `✅ ${o.agent}/${o.job} is succeeding again`);
+  }
+}
+
+// --- Config reload ---
+
+/**
+ * Re-read config.json and apply it if it's valid. An unreadable or invalid
+ * file is reported and the running config stays in place.
+ */
+async function reloadConfig(): Promise<{ applied: boolean; report: string }> {
+  const { config: next, errors, warnings } = readConfig();
+  const warningLines = warnings.map((w) => `⚠️ ${formatIssue(w)}`).join("\n");
+  if (!next) {
+    const report =
+      `❌ config.json not reloaded — keeping the running config:\n` +
+      errors.map((e) => `• ${formatIssue(e)}`).join("\n") +
+      (warningLines ? `\n${warningLines}` : "");
+    await reportSystem("config reload", report);
+    return { applied: false, report };
+  }
+
+  const diff = diffConfigs(activeConfig, next);
+  activeConfig = next;
+  registerPipelines(next.agents);
+  setChatWorkers(next.chat?.workers ?? DEFAULT_CHAT_WORKERS);
+  setAttachments(next.chat?.attachments);
+
+  for (const agent of next.agents) {
+    ensureAgentWorkspace(agent, next, next.agents);
+  }
+
+  const infos = agentInfos(next);
+  setTelegramAgents(infos);
+  if (discordChannels && next.discord?.botToken) {
+    try {
+      if (diff.addedAgents.length) {
+        discordChannels = await getOrCreateChannels(next.discord, infos);
+      }
+      setDiscordAgents(discordChannels, infos);
+    } catch (err) {
+      console.error("Discord setup error:", err);
+    }
+  }
+
+  syncCronJobs();
+  const report =
+    `🔄 config.json reloaded\n${describeDiff(diff)}` + (warningLines ? `\n${warningLines}` : "");
+  await reportSystem("config reload", report);
+  return { applied: true, report };
+}
+
+// Reloads run one at a time, whether from a file change, SIGHUP or `bun run reload`
+let reloading: Promise<unknown> = Promise.resolve();
+
+function queueReload() {
+  const next = reloading.then(reloadConfig);
+  reloading = next.catch((err) => console.error("Config reload error:", err));
+  return next;
+}
+
+/** Reload when config.json changes (debounced) or on SIGHUP. */
+function watchConfig() {
+  let debounce: ReturnType<typeof setTimeout> | undefined;
+
+  // Watch the directory — editors often replace the file rather than write it
+  watch(ROOT, (_event, filename) => {
+    if (filename !== "config.json") return;
+    clearTimeout(debounce);
+    debounce = setTimeout(queueReload, 500);
   });
+
+  process.on("SIGHUP", () => {
+    queueReload();
+  });
+}
+
+// --- Control socket ---
+const startedAt = new Date();
+
+function describeOutcome(outcome: EnqueueOutcome): string {
+  switch (outcome) {
+    case "ok": return "✅ finished";
+    case "suppressed": return "⏭️ finished (suppressed)";
+    case "error": return "❌ failed";
+    case "timeout": return "⏰ timed out";
+    case "cancelled": return "🚫 cancelled";
+    case "interrupted": return "⏹️ interrupted — the scheduler shut down";
+    case "skipped": return "⏭️ skipped — the agent was busy";
+    case "paused": return "⏸️ skipped — paused";
+    case "maintenance": return "🚧 skipped — maintenance window";
+    case "deferred": return "🚧 deferred until the maintenance window ends";
+  }
+}
+
+/** "agent" or "agent/job" → the target, or an error message. */
+function resolveTarget(ref: string): { agent: Agent; job?: Job } | string {
+  const [agentName, jobName] = ref.split("/", 2);
+  const agent = activeConfig.agents.find((a) => a.name === agentName);
+  if (!agent) return `Agent "${agentName}" not found`;
+  if (!jobName) return { agent };
+  const job = agent.jobs.find((j) => j.name === jobName);
+  return job ? { agent, job } : `Job "${jobName}" not found in agent "${agentName}"`;
+}
+
+async function handleControl(request: ControlRequest, reply: (r: ControlReply) => void) {
+  const [ref] = request.args;
+
+  switch (request.command) {
+    case "status": {
+      const nextRuns: Record<string, string> = {};
+      for (const [key, entry] of cronJobs) {
+        nextRuns[key] = entry.cron.nextDate().toJSDate().toISOString();
+      }
+      reply({
+        ok: true,
+        message: "running",
+        data: {
+          pid: process.pid,
+          startedAt: startedAt.toISOString(),
+          shuttingDown: !!shuttingDown,
+          paused: pausedTargets(),
+          deferred: Object.fromEntries([...deferred].map(([key, until]) => [key, until.toISOString()])),
+          held: heldCount(),
+          queue: snapshot(),
+          nextRuns,
+        },
+      });
+      return;
+    }
+
+    case "trigger": {
+      const target = ref ? resolveTarget(ref) : "Usage: trigger <agent>/<job>";
+      if (typeof target === "string") return reply({ ok: false, message: target });
+      if (!target.job) return reply({ ok: false, message: "Usage: trigger <agent>/<job>" });
+      const { agent } = target;
+      // A prompt override applies to this run only
+      const job = request.prompt ? { ...target.job, prompt: request.prompt } : target.job;
+      const key = `${agent.name}/${job.name}`;
+
+      const ahead = pending(agent.name);
+      if (ahead && (job.concurrency || agent.concurrency) === "skip") {
+        return reply({ ok: false, message: `⏭️ ${key} skipped — ${agent.name} is busy (concurrency: skip)` });
+      }
+
+      let runId: number | undefined; // known right away unless the run is queued
+      const done = new Promise<void>((resolveDone) => {
+        enqueueJob(agent, job, activeConfig, discordChannels, "manual", {
+          onStart: (id) => {
+            runId ??= id;
+          },
+          onDone: (outcome, runId) => {
+            if (request.wait) {
+              reply({
+                ok: outcome === "ok" || outcome === "suppressed",
+                message: `${describeOutcome(outcome)}: ${key}${runId ? ` (run #${runId})` : ""}`,
+                data: { outcome, runId },
+              });
+            }
+            resolveDone();
+          },
+        });
+      });
+
+      const when = ahead ? `queued behind ${ahead} run(s)` : `started (run #${runId})`;
+      const custom = request.prompt ? " with a custom prompt" : "";
+      reply({ ok: true, message: `🔫 ${key} ${when}${custom}`, data: { ahead, runId: runId ?? null } });
+      if (request.wait) await done;
+      return;
+    }
+
+    case "cancel": {
+      const target = ref ? resolveTarget(ref) : "Usage: cancel <agent>[/<job>]";
+      if (typeof target === "string") return reply({ ok: false, message: target });
+      const { running, dropped } = cancel(target.agent.name, target.job?.name);
+      if (!running && dropped.length === 0) {
+        return reply({ ok: false, message: `Nothing to cancel for ${ref}` });
+      }
+      const parts: string[] = [];
+      if (running) parts.push(`stopping ${target.agent.name}/${running}`);
+      if (dropped.length) parts.push(`dropped ${dropped.length} queued run(s)`);
+      reply({ ok: true, message: `🚫 ${parts.join(", ")}` });
+      return;
+    }
+
+    case "cancel-run": {
+      const run = getRun(Number(ref));
+      if (!run) return reply({ ok: false, message: `Run ${ref} not found` });
+      if (run.status !== "running") {
+        return reply({ ok: false, message: `Run ${ref} isn't running (${run.status})` });
+      }
+      const { running } = cancel(run.agent, run.job, false);
+      if (!running) return reply({ ok: false, message: `Run ${ref} isn't running in this daemon` });
+      reply({ ok: true, message: `🚫 stopping ${run.agent}/${running} (run #${run.id})` });
+      return;
+    }
+
+    case "pause":
+    case "resume": {
+      const key = ref || "*";
+      if (ref) {
+        const target = resolveTarget(ref);
+        if (typeof target === "string") return reply({ ok: false, message: target });
+      }
+      const label = ref || "all jobs";
+      if (request.command === "pause") {
+        pause(key);
+        console.log(`⏸️  Paused ${label}`);
+        reply({ ok: true, message: `⏸️ Paused ${label} — scheduled runs are skipped until resumed` });
+      } else if (resume(key)) {
+        console.log(`▶️  Resumed ${label}`);
+        reply({ ok: true, message: `▶️ Resumed ${label}` });
+      } else {
+        const still = isPaused(...(key.split("/") as [string, string]));
+        reply({
+          ok: false,
+          message: still
+            ? `${label} isn't paused on its own — it's covered by a wider pause (${pausedTargets().join(", ")})`
+            : `${label} isn't paused`,
+        });
+      }
+      return;
+    }
+
+    case "reload": {
+      const { applied, report } = await queueReload();
+      reply({ ok: applied, message: report });
+      return;
+    }
+
+    case "shutdown": {
+      const now = request.args.includes("--now");
+      const running = runningCount();
+      reply({
+        ok: true,
+        message: running
+          ? `🛑 Shutting down — ${now ? "stopping" : "waiting for"} ${running} running run(s)`
+          : "🛑 Shutting down",
+      });
+      await shutdown(now); // the connection closes as the daemon exits
+      return;
+    }
+
+    default:
+      reply({ ok: false, message: `Unknown command "${request.command}"` });
+  }
+}
+
+// --- Shutdown ---
+const DEFAULT_DRAIN_TIMEOUT = 60; // seconds
+
+let controlServer: Awaited<ReturnType<typeof startControlServer>> | undefined;
+let shuttingDown: Promise<void> | undefined;
+
+function interruptRunning(reason: string) {
+  const stopped = interruptAll();
+  if (stopped.length) console.log(`⏹️  ${reason} — stopping ${stopped.join(", ")}`);
+}
+
+/**
+ * Stop gracefully: nothing new starts (queued runs and pending retries are
+ * dropped), and running jobs get `shutdown.drainTimeout` seconds to finish
+ * before they're interrupted — recorded, notified and cleaned up like a
+ * cancel. `now` skips the wait; so does a second call with it (Ctrl-C twice).
+ */
+function shutdown(now = false): Promise<void> {
+  if (shuttingDown) {
+    if (now) interruptRunning("Stopping now");
+    return shuttingDown;
+  }
+
+  shuttingDown = (async () => {
+    console.log("\n🛑 Shutting down...");
+    cronJobs.forEach((entry) => entry.cron.stop());
+
+    for (const [runId, timer] of pendingRetries) {
+      clearTimeout(timer);
+      setNextRetry(runId, null);
+    }
+    if (pendingRetries.size) console.log(`   🔁 Dropped ${pendingRetries.size} pending retry(ies)`);
+    if (deferred.size) console.log(`   🚧 Dropped ${deferred.size} deferred run(s)`);
+    const dropped = closeQueue();
+    if (dropped.length) console.log(`   ⏹️  Dropped ${dropped.length} queued run(s): ${dropped.join(", ")}`);
+
+    const running = runningCount();
+    if (running) {
+      const drain = activeConfig.shutdown?.drainTimeout ?? DEFAULT_DRAIN_TIMEOUT;
+      if (now || drain === 0) {
+        interruptRunning("Not waiting");
+      } else {
+        console.log(`⏳ Waiting up to ${drain}s for ${running} running run(s) — Ctrl-C again to stop them now`);
+        const timer = setTimeout(() => interruptRunning(`Still running after ${drain}s`), drain * 1000);
+        await idle();
+        clearTimeout(timer);
+      }
+      await idle();
+    }
+
+    if (controlServer) stopControlServer(controlServer);
+    clearHeartbeat();
+    console.log("👋 Stopped");
+    process.exit(0);
+  })();
+  return shuttingDown;
+}
+
+// --- Startup reconciliation ---
+
+/** The pid of a run's script, from its .pid file — if that process is still alive and still the run. */
+function runPid(logPath: string): number | undefined {
+  const base = logPath.replace(/\.log$/, "");
+  let pid: number;
+  try {
+    pid = Number(readFileSync(`${base}.pid`, "utf-8").trim());
+  } catch {
+    return undefined;
+  }
+  if (!pid || !isAlive(pid)) return undefined;
+  // Pids get reused — make sure it's still running this run's script
+  try {
+    if (!readFileSync(`/proc/${pid}/cmdline`, "utf-8").includes(`${base}.sh`)) return undefined;
+  } catch {} // no procfs (macOS)
+  return pid;
+}
+
+/**
+ * Clean up after a daemon that didn't shut down gracefully (killed, crashed,
+ * machine restarted): runs it left marked running are recorded as
+ * interrupted, with their process trees stopped if still alive, and windows
+ * left open by non-interactive jobs are closed.
+ */
+async function reconcile(config: Config) {
+  for (const run of unfinishedRuns()) {
+    const pid = run.log_path ? runPid(run.log_path) : undefined;
+    const stoppedBy = pid ? await stopProcessTree(pid) : undefined;
+
+    // The log's last write is the best guess at when the run stopped
+    let lastActive = Date.now();
+    if (run.log_path) {
+      try {
+        if (!pid) lastActive = statSync(run.log_path).mtimeMs;
+        appendFileSync(run.log_path, `\n--- JOB INTERRUPTED (scheduler restarted) ---\n`);
+      } catch {}
+    }
+
+    finishRun(run.id, {
+      status: "interrupted",
+      duration: Math.max(0, (lastActive - new Date(run.started_at).getTime()) / 1000),
+      stoppedBy,
+      error: "The scheduler stopped while this run was in progress",
+    });
+    console.log(
+      `⏹️  ${run.agent}/${run.job} (run #${run.id}) was left running by the last daemon — ` +
+        `marked interrupted${stoppedBy ? ` (stopped: ${stoppedBy})` : ""}`
+    );
+  }
+
+  const jobWindows = new Set(
+    config.agents.flatMap((a) => a.jobs.filter((j) => !j.interactive).map((j) => `${a.name}-${j.name}`))
+  );
+  let windows: string[] = [];
+  try {
+    windows = execSync(`tmux list-windows -t ${TMUX_SESSION} -F '#W' 2>/dev/null`, {
+      encoding: "utf-8",
+    }).split("\n");
+  } catch {}
+  for (const name of windows.filter((w) => jobWindows.has(w))) {
+    try {
+      execSync(`tmux kill-window -t ${TMUX_SESSION}:${name} 2>/dev/null`);
+      console.log(`🧹 Closed leftover tmux window ${name}`);
+    } catch {}
+  }
 }
 
 // --- Main ---
 async function main() {
   const config = loadConfig();
+  activeConfig = config;
+
+  try {
+    controlServer = await startControlServer(handleControl);
+  } catch (err: any) {
+    console.error(`❌ Can't start: ${err.message}`);
+    process.exit(1);
+  }
+  setChatControl(handleControl);
+
   mkdirSync(LOGS_DIR, { recursive: true });
+  registerPipelines(config.agents);
 
   const totalJobs = config.agents.reduce((n, a) => n + a.jobs.length, 0);
 
@@ -343,22 +1260,22 @@ async function main() {
   console.log(`📱 Telegram: ${telegramEnabled ? "🟢 Enabled" : "⚪ Disabled"}`);
   console.log(`🎮 Discord:  ${discordEnabled ? "🟢 Enabled" : "⚪ Disabled"}`);
   console.log(`🤖 Agents:   ${config.agents.length}`);
-  console.log(`📅 Jobs:     ${totalJobs}\n`);
+  console.log(`📅 Jobs:     ${totalJobs}`);
+  const pausedNow = pausedTargets();
+  if (pausedNow.length) {
+    console.log(`⏸️  Paused:   ${pausedNow.map((t) => (t === "*" ? "all jobs" : t)).join(", ")}`);
+  }
+  if (config.quietHours) {
+    console.log(`🌙 Quiet:    ${describeWindow(config.quietHours, "quiet hours")}`);
+  }
+  console.log();
 
   // --- Setup Discord channels ---
-  let discordChannelMap: Record<string, string> | undefined;
   if (discordEnabled) {
     try {
-      const agentInfos = config.agents.map((a) => ({
-        name: a.name,
-        workdir: a.workdir,
-        description: a.description,
-        allowedTools: a.allowedTools,
-        timeout: a.timeout,
-      }));
-      discordChannelMap = await getOrCreateChannels(config.discord!, agentInfos);
+      discordChannels = await getOrCreateChannels(config.discord!, agentInfos(config));
       console.log(
-        `🎮 Discord channels: ${Object.entries(discordChannelMap)
+        `🎮 Discord channels: ${Object.entries(discordChannels)
           .map(([a]) => `#${a}`)
           .join(", ")}`
       );
@@ -367,69 +1284,103 @@ async function main() {
     }
   }
 
-  // --- Register cron jobs ---
-  const cronJobs: CronJob[] = [];
+  // --- Runs and windows left behind by the last daemon ---
+  await reconcile(config);
 
+  // --- Register cron jobs ---
   for (const agent of config.agents) {
     console.log(`\n  📦 ${agent.name} — ${agent.description || ""}`);
     console.log(`     Workdir: ${agent.workdir}`);
     ensureAgentWorkspace(agent, config, config.agents);
 
     for (const job of agent.jobs) {
-      console.log(`     ├─ ${job.name} [${job.mode}] ${job.schedule}`);
+      const after = dependenciesOf(agent.name, job.after)
+        .map((d) => (d.on === "success" ? d.upstream : `${d.upstream} (${d.on})`))
+        .join(", ");
+      console.log(
+        `     ├─ ${job.name} [${job.mode}] ${job.schedule || ""}${after ? ` after ${after}` : ""}`
+      );
+    }
+  }
+  syncCronJobs();
+
+  // --- Catch up firings missed while the daemon was down ---
+  for (const agent of config.agents) {
+    for (const job of agent.jobs) {
+      if (!job.schedule || !job.catchUp || job.catchUp === "none") continue;
+      const lastRun = lastFinished(agent.name, job.name);
+      if (!lastRun) continue;
 
-      const cronJob = new CronJob(
-        job.schedule,
-        () => runJob(agent, job, config, discordChannelMap),
-        null,
-        true
+      const missed = missedFirings(job.schedule, lastRun);
+      const firings = firingsToCatchUp(
+        job.catchUp,
+        missed,
+        job.catchUpLimit ?? DEFAULT_CATCH_UP_LIMIT
       );
-      cronJobs.push(cronJob);
+      if (firings.length === 0) continue;
+
+      console.log(
+        `⏪ ${agent.name}/${job.name} missed ${missed.length} run(s) ` +
+          `since ${lastRun.toLocaleString()} — catching up ${firings.length}`
+      );
+      // Always queued — under "skip" or "cancel" each firing would drop or stop the one before
+      for (const scheduledFor of firings) {
+        enqueueJob(agent, job, config, discordChannels, "catchup", { scheduledFor, concurrency: "queue" });
+      }
     }
   }
 
   ensureTmuxSession();
 
   // --- Start channel listeners ---
-  const agentInfos = config.agents.map((a) => ({
-    name: a.name,
-    workdir: a.workdir,
-    description: a.description,
-    allowedTools: a.allowedTools,
-    timeout: a.timeout,
-  }));
+  setChatWorkers(config.chat?.workers ?? DEFAULT_CHAT_WORKERS);
+  setAttachments(config.chat?.attachments);
 
   if (telegramEnabled) {
     // Run listener in background (non-blocking)
-    startTelegramListener(config.telegram!, agentInfos).catch((err) =>
+    startTelegramListener(config.telegram!, agentInfos(config)).catch((err) =>
       console.error("Telegram listener error:", err)
     );
   }
 
   if (discordEnabled) {
-    startDiscordListener(config.discord!, agentInfos).catch((err) =>
+    startDiscordListener(config.discord!, agentInfos(config)).catch((err) =>
       console.error("Discord listener error:", err)
     );
   }
 
+  watchConfig();
+
+  if (config.http?.enabled) {
+    try {
+      startHttpServer(config.http, { config: () => activeConfig, control: handleControl });
+    } catch (err: any) {
+      console.error(`HTTP API error: ${err.message}`);
+    }
+  }
+
+  writeHeartbeat(startedAt);
+  setInterval(() => writeHeartbeat(startedAt), HEARTBEAT_INTERVAL_MS);
+  setInterval(() => {
+    checkDeadlines().catch((err) => console.error("Deadline check error:", err));
+  }, DEADLINE_CHECK_MS);
+
+  // Notifications held during quiet hours go out within a minute of them ending
+  sendHeld().catch((err) => console.error("Held notifications error:", err));
+  setInterval(() => {
+    sendHeld().catch((err) => console.error("Held notifications error:", err));
+  }, 60_000);
+
   console.log(`\n👀 Watch: tmux attach -t ${TMUX_SESSION}`);
+  console.log(`🔄 Edits to config.json are picked up automatically`);
+  console.log(`🎛️  Control: bun run status · trigger · cancel · pause · resume · reload`);
   console.log(`⏳ Waiting for next scheduled job...\n`);
 
-  process.on("SIGINT", () => {
-    console.log("\n🛑 Shutting down...");
-    cronJobs.forEach((j) => j.stop());
-    process.exit(0);
-  });
-
-  process.on("SIGTERM", () => {
-    cronJobs.forEach((j) => j.stop());
-    process.exit(0);
-  });
+  // A second Ctrl-C stops running jobs instead of waiting for them
+  process.on("SIGINT", () => shutdown(!!shuttingDown));
+  process.on("SIGTERM", () => shutdown());
 
   setInterval(() => {}, 60_000);
 }
 
 main().catch(console.error);
-
-// Export for trigger.ts
-export { runJob };
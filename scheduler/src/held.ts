@@ -0,0 +1,58 @@
+/**
+ * Held notifications — what scheduled runs and the scheduler itself had to
+ * say during quiet hours, sent together once they end.
+ *
+ * Kept in .held.json so a restart during quiet hours doesn't lose them.
+ */
+
+import { readFileSync, writeFileSync } from "fs";
+import { join, resolve } from "path";
+import type { Artifact } from "./artifacts.ts";
+
+// --- Types ---
+export interface HeldNotice {
+  at: string; // when it would have been sent
+  text: string;
+  files?: Artifact[]; // a job's artifacts — sent as they are when quiet hours end
+  agent?: string; // a job's notification (agent and job) ...
+  job?: string;
+  title?: string; // ... or a scheduler notice
+}
+
+// --- Paths ---
+const ROOT = resolve(import.meta.dir, "..");
+export const HELD_FILE = join(ROOT, ".held.json");
+
+function load(): HeldNotice[] {
+  try {
+    return JSON.parse(readFileSync(HELD_FILE, "utf-8"));
+  } catch {
+    return [];
+  }
+}
+
+let held = load();
+
+function save() {
+  writeFileSync(HELD_FILE, JSON.stringify(held, null, 2));
+}
+
+export function hold(notice: Omit<HeldNotice, "at">) {
+  held.push({ at: new Date().toISOString(), ...notice });
+  save();
+}
+
+export function heldCount(): number {
+  return held.length;
+}
+
+/** Everything held, oldest first. Each notice stays held until it's `release`d. */
+export function heldNotices(): HeldNotice[] {
+  return [...held];
+}
+
+/** Forget `notice` — it has been sent. */
+export function release(notice: HeldNotice) {
+  held = held.filter((n) => n !== notice);
+  save();
+}
@@ -0,0 +1,100 @@
+#!/usr/bin/env bun
+/**
+ * Show past runs from the run store, newest first.
+ * Usage: bun run history [agent | agent/job] [options]
+ *
+ *   --status <ok|error|timeout|suppressed|cancelled|interrupted|running>
+ *   --source <cron|catchup|manual|pipeline|telegram|discord|dispatch>
+ *   --since <date | 24h | 7d>     --until <date | 24h | 7d>
+ *   --limit <n>  (default 20)     -v  (show output excerpt, error and log path)
+ */
+
+import { queryRuns, statusEmoji, type RunFilter } from "./store.ts";
+import { formatCost } from "./result.ts";
+
+const USAGE = `Usage: bun run history [agent | agent/job] [--status s] [--source s] [--since t] [--until t] [--limit n] [-v]`;
+
+/** "2026-10-01", "2026-10-01T08:00" or relative "90m" / "24h" / "7d" → ISO. */
+function parseWhen(value: string): string {
+  const relative = value.match(/^(\d+)([mhd])$/);
+  if (relative) {
+    const unit = { m: 60_000, h: 3_600_000, d: 86_400_000 }[relative[2] as "m" | "h" | "d"];
+    return new Date(Date.now() - Number(relative[1]) * unit).toISOString();
+  }
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    console.error(`❌ Can't read "${value}" as a date — use e.g. 2026-10-01 or 7d`);
+    process.exit(1);
+  }
+  return date.toISOString();
+}
+
+const filter: RunFilter = { limit: 20 };
+let verbose = false;
+const args = process.argv.slice(2);
+
+for (let i = 0; i < args.length; i++) {
+  const arg = args[i];
+  const value = () => {
+    const v = args[++i];
+    if (v === undefined) {
+      console.error(`❌ ${arg} needs a value\n\n${USAGE}`);
+      process.exit(1);
+    }
+    return v;
+  };
+
+  if (arg === "--status") filter.status = value();
+  else if (arg === "--source") filter.source = value();
+  else if (arg === "--since") filter.since = parseWhen(value());
+  else if (arg === "--until") filter.until = parseWhen(value());
+  else if (arg === "--limit") filter.limit = Number(value()) || 20;
+  else if (arg === "-v" || arg === "--verbose") verbose = true;
+  else if (arg === "-h" || arg === "--help") {
+    console.log(USAGE);
+    process.exit(0);
+  } else if (!arg.startsWith("-") && !filter.agent) {
+    const [agent, job] = arg.split("/", 2);
+    filter.agent = agent;
+    filter.job = job || undefined;
+  } else {
+    console.error(`❌ Unknown argument "${arg}"\n\n${USAGE}`);
+    process.exit(1);
+  }
+}
+
+const runs = queryRuns(filter);
+if (runs.length === 0) {
+  console.log("No runs match.");
+  process.exit(0);
+}
+
+for (const run of runs) {
+  const when = new Date(run.started_at).toLocaleString();
+  const duration = run.duration != null ? `${run.duration.toFixed(1)}s` : "";
+  const exit = run.exit_code != null && run.exit_code !== 0 ? `exit ${run.exit_code}` : "";
+  const cost = run.cost_usd != null ? formatCost(run.cost_usd) : "";
+  const attempt = run.attempt > 1 ? `attempt ${run.attempt}` : "";
+
+  console.log(
+    [
+      `#${run.id}`.padEnd(6),
+      when.padEnd(23),
+      `${run.agent}/${run.job}`.padEnd(32),
+      run.source.padEnd(9),
+      `${statusEmoji(run.status)} ${run.status}`.padEnd(13),
+      duration.padStart(7),
+      [exit, cost, attempt].filter(Boolean).join(" · "),
+    ].join(" ")
+  );
+
+  if (verbose) {
+    if (run.error) console.log(`       Error:  ${run.error.trim().split("\n").slice(-3).join("\n               ")}`);
+    if (run.output_excerpt) {
+      const preview = run.output_excerpt.trim().split("\n").slice(0, 3).join("\n               ");
+      console.log(`       Output: ${preview}`);
+    }
+    if (run.log_path) console.log(`       Log:    ${run.log_path}`);
+    console.log();
+  }
+}
@@ -0,0 +1,331 @@
+/**
+ * HTTP API — optional, for tooling that can't use the control socket
+ * (dashboards, phone shortcuts, other machines on a trusted network).
+ *
+ *   GET  /                                the web dashboard (dashboard.html)
+ *   GET  /metrics                         Prometheus metrics (metrics.ts)
+ *   GET  /api/status                      daemon pid, pauses and queues
+ *   GET  /api/agents                      agents, jobs, next fire times and recent runs
+ *   GET  /api/runs?agent&job&status&source&since&until&limit
+ *   GET  /api/runs/:id                    one run
+ *   GET  /api/runs/:id/stream             the run's log, live, as Server-Sent Events
+ *   POST /api/runs/:id/cancel             stop that run
+ *   POST /api/jobs/:agent/:job/trigger    queue a run — body: { "prompt"?: string }
+ *   POST /api/jobs/:agent/:job/cancel     stop the job's running and queued runs
+ *   POST /api/jobs/:agent/:job/pause      (and /resume)
+ *   POST /api/agents/:agent/pause         (and /resume)
+ *   POST /api/pause                       everything (and /api/resume)
+ *
+ * Every API request needs `Authorization: Bearer <http.token>`; `?token=`
+ * works too, for clients like EventSource that can't set headers. The
+ * dashboard page itself holds no data, so it loads without the token and
+ * asks for it. Actions go through the same handler as the control socket,
+ * so they behave the same.
+ */
+
+import { timingSafeEqual } from "crypto";
+import { openSync, readSync, closeSync, fstatSync, readFileSync } from "fs";
+import { join } from "path";
+import { StringDecoder } from "string_decoder";
+import type { Server } from "bun";
+import type { Config } from "./config.ts";
+import type { ControlHandler, ControlReply, ControlRequest } from "./control.ts";
+import { queryRuns, getRun, jobSummary, type RunFilter } from "./store.ts";
+import { renderMetrics } from "./metrics.ts";
+
+// --- Types ---
+export interface HttpConfig {
+  enabled?: boolean;
+  token: string;
+  port?: number;
+  host?: string;
+}
+
+export interface HttpDaemon {
+  config: () => Config; // the live config (it changes on reload)
+  control: ControlHandler;
+}
+
+export const DEFAULT_HTTP_PORT = 7878;
+export const DEFAULT_HTTP_HOST = "127.0.0.1";
+
+const STREAM_POLL_MS = 1000;
+const STREAM_KEEPALIVE_MS = 15_000;
+const SPARKLINE_RUNS = 20;
+
+const DASHBOARD_FILE = join(import.meta.dir, "dashboard.html");
+
+// --- Helpers ---
+function json(body: unknown, status = 200): Response {
+  return Response.json(body, { status });
+}
+
+function fail(status: number, error: string): Response {
+  return json({ error }, status);
+}
+
+function authorized(req: Request, url: URL, token: string): boolean {
+  const header = req.headers.get("authorization") || "";
+  const given = header.startsWith("Bearer ") ? header.slice(7) : url.searchParams.get("token") || "";
+  const a = Buffer.from(given);
+  const b = Buffer.from(token);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/** Run a control command and return its first reply. */
+async function call(daemon: HttpDaemon, request: ControlRequest): Promise<ControlReply> {
+  let first: ControlReply | undefined;
+  await daemon.control(request, (r) => (first ??= r));
+  return first ?? { ok: false, message: "no reply" };
+}
+
+function replyStatus(reply: ControlReply, notFound = /not found/): number {
+  if (reply.ok) return 200;
+  return notFound.test(reply.message) ? 404 : 409;
+}
+
+// --- Routes ---
+async function agents(daemon: HttpDaemon): Promise<Response> {
+  const { data } = await call(daemon, { command: "status", args: [] });
+  const paused = new Set<string>(data.paused);
+  return json(
+    daemon.config().agents.map((agent) => ({
+      name: agent.name,
+      description: agent.description,
+      paused: paused.has("*") || paused.has(agent.name),
+      queue: data.queue[agent.name] ?? { running: null, waiting: [] },
+      jobs: agent.jobs.map((job) => {
+        const key = `${agent.name}/${job.name}`;
+        const summary = jobSummary(agent.name, job.name);
+        return {
+          name: job.name,
+          mode: job.mode,
+          schedule: job.schedule ?? null,
+          after: job.after ?? null,
+          nextRun: data.nextRuns[key] ?? null,
+          paused: paused.has(key),
+          running: summary.running ?? null,
+          last: summary.last ?? null,
+          recent: summary.recent
+            .filter((r) => r.status !== "running")
+            .slice(0, SPARKLINE_RUNS)
+            .reverse()
+            .map((r) => ({ id: r.id, status: r.status, startedAt: r.started_at, duration: r.duration })),
+          runCount: summary.runCount,
+          totalCostUsd: summary.totalCostUsd,
+        };
+      }),
+    }))
+  );
+}
+
+function runs(url: URL): Response {
+  const params = url.searchParams;
+  const filter: RunFilter = {};
+  for (const key of ["agent", "job", "status", "source"] as const) {
+    const value = params.get(key);
+    if (value) filter[key] = value;
+  }
+  for (const key of ["since", "until"] as const) {
+    const value = params.get(key);
+    if (!value) continue;
+    const date = new Date(value);
+    if (isNaN(date.getTime())) return fail(400, `"${key}" must be a date, e.g. 2026-10-01T08:00:00Z`);
+    filter[key] = date.toISOString();
+  }
+  const limit = params.get("limit");
+  if (limit) {
+    const n = Number(limit);
+    if (!Number.isInteger(n) || n < 1) return fail(400, `"limit" must be a positive integer`);
+    filter.limit = Math.min(n, 1000);
+  }
+  return json(queryRuns(filter));
+}
+
+/**
+ * Tail a run's log as SSE: everything written so far, then new lines as
+ * they're appended (one `output` event per line), then a `done` event with
+ * the final run once it has finished.
+ */
+function stream(req: Request, runId: number): Response {
+  const run = getRun(runId);
+  if (!run) return fail(404, `Run ${runId} not found`);
+  if (!run.log_path) return fail(409, `Run ${runId} has no log to stream`);
+  const logPath = run.log_path;
+
+  let timer: ReturnType<typeof setInterval> | undefined;
+  let keepalive: ReturnType<typeof setInterval> | undefined;
+  const stop = () => {
+    clearInterval(timer);
+    clearInterval(keepalive);
+  };
+
+  const body = new ReadableStream<string>({
+    start(controller) {
+      let offset = 0;
+      let partial = "";
+      const decoder = new StringDecoder("utf-8"); // a read can end mid-character
+      let closed = false;
+
+      const send = (event: string, data: string) => {
+        if (!closed) controller.enqueue(`event: ${event}\ndata: ${data}\n\n`);
+      };
+
+      const readNew = () => {
+        let fd: number;
+        try {
+          fd = openSync(logPath, "r");
+        } catch {
+          return; // not created yet
+        }
+        try {
+          const size = fstatSync(fd).size;
+          if (size <= offset) return;
+          const buf = Buffer.alloc(size - offset);
+          readSync(fd, buf, 0, buf.length, offset);
+          offset = size;
+          const lines = (partial + decoder.write(buf)).split("\n");
+          partial = lines.pop()!;
+          for (const line of lines) send("output", line);
+        } finally {
+          closeSync(fd);
+        }
+      };
+
+      const tick = () => {
+        readNew();
+        const current = getRun(runId);
+        if (current && current.status !== "running") {
+          if (partial) send("output", partial);
+          send("done", JSON.stringify(current));
+          closed = true;
+          stop();
+          controller.close();
+        }
+      };
+
+      tick();
+      if (!closed) {
+        timer = setInterval(tick, STREAM_POLL_MS);
+        keepalive = setInterval(() => !closed && controller.enqueue(`: keepalive\n\n`), STREAM_KEEPALIVE_MS);
+        req.signal.addEventListener("abort", () => {
+          closed = true;
+          stop();
+        });
+      }
+    },
+    cancel: stop,
+  });
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    },
+  });
+}
+
+async function route(req: Request, url: URL, daemon: HttpDaemon, server: Server<unknown>): Promise<Response> {
+  const parts = url.pathname.split("/").filter(Boolean).map(decodeURIComponent);
+  if (req.method === "GET" && url.pathname === "/metrics") {
+    const { data } = await call(daemon, { command: "status", args: [] });
+    return new Response(renderMetrics(daemon.config(), data), {
+      headers: { "Content-Type": "text/plain; version=0.0.4; charset=utf-8" },
+    });
+  }
+  if (parts[0] !== "api") return fail(404, "Not found");
+  const [, resource, a, b, action] = parts;
+  const method = req.method;
+
+  if (method === "GET" && resource === "status" && !a) {
+    const reply = await call(daemon, { command: "status", args: [] });
+    return json(reply.data);
+  }
+
+  if (method === "GET" && resource === "agents" && !a) return agents(daemon);
+
+  if (method === "POST" && (resource === "pause" || resource === "resume") && !a) {
+    const reply = await call(daemon, { command: resource, args: [] });
+    return json(reply, replyStatus(reply));
+  }
+
+  if (method === "POST" && resource === "agents" && a && (b === "pause" || b === "resume")) {
+    const reply = await call(daemon, { command: b, args: [a] });
+    return json(reply, replyStatus(reply));
+  }
+
+  if (resource === "runs") {
+    if (method === "GET" && !a) return runs(url);
+    const id = Number(a);
+    if (!Number.isInteger(id)) return fail(404, "Not found");
+
+    if (method === "GET" && !b) {
+      const run = getRun(id);
+      return run ? json(run) : fail(404, `Run ${id} not found`);
+    }
+    if (method === "GET" && b === "stream") {
+      server.timeout(req, 0); // streams outlive the idle timeout
+      return stream(req, id);
+    }
+    if (method === "POST" && b === "cancel") {
+      const reply = await call(daemon, { command: "cancel-run", args: [String(id)] });
+      return json(reply, replyStatus(reply));
+    }
+  }
+
+  if (resource === "jobs" && a && b && method === "POST") {
+    const ref = `${a}/${b}`;
+    if (action === "trigger") {
+      let body: any = {};
+      if (req.headers.get("content-type")?.includes("application/json")) {
+        try {
+          body = await req.json();
+        } catch {
+          return fail(400, "Body must be JSON");
+        }
+      }
+      if (body?.prompt !== undefined && (typeof body.prompt !== "string" || !body.prompt.trim())) {
+        return fail(400, `"prompt" must be a non-empty string`);
+      }
+      const reply = await call(daemon, { command: "trigger", args: [ref], prompt: body?.prompt });
+      return json(reply, reply.ok ? 202 : replyStatus(reply));
+    }
+    if (action === "cancel" || action === "pause" || action === "resume") {
+      const reply = await call(daemon, { command: action, args: [ref] });
+      return json(reply, replyStatus(reply));
+    }
+  }
+
+  return fail(404, "Not found");
+}
+
+// --- Server ---
+export function startHttpServer(config: HttpConfig, daemon: HttpDaemon): Server<unknown> {
+  const dashboard = readFileSync(DASHBOARD_FILE, "utf-8");
+
+  const server = Bun.serve({
+    hostname: config.host || DEFAULT_HTTP_HOST,
+    port: config.port ?? DEFAULT_HTTP_PORT,
+    async fetch(req, server) {
+      const url = new URL(req.url);
+      if (req.method === "GET" && url.pathname === "/") {
+        return new Response(dashboard, { headers: { "Content-Type": "text/html; charset=utf-8" } });
+      }
+      if (!authorized(req, url, config.token)) {
+        return new Response(JSON.stringify({ error: "Unauthorized" }), {
+          status: 401,
+          headers: { "Content-Type": "application/json", "WWW-Authenticate": "Bearer" },
+        });
+      }
+      try {
+        return await route(req, url, daemon, server);
+      } catch (err: any) {
+        console.error(`HTTP ${req.method} ${url.pathname} error:`, err);
+        return fail(500, err.message);
+      }
+    },
+  });
+  console.log(`🌐 Dashboard and HTTP API on http://${server.hostname}:${server.port}/`);
+  return server;
+}
@@ -0,0 +1,227 @@
+/**
+ * Inbox — photos, voice notes and documents sent to an agent from chat.
+ *
+ * Listeners turn a message's attachments into `Attachment`s and check
+ * them against `chat.attachments` (size and type) as the message arrives,
+ * so anything refused is reported straight away. The rest are downloaded
+ * when the reply starts, into the agent's inbox directory inside its
+ * workdir, and listed in the prompt by their paths — the message's caption
+ * is the instruction. Voice notes are also run through the `transcribe`
+ * command, if there is one, and a voice note without a caption is taken
+ * as the instruction itself.
+ */
+
+import { writeFileSync, mkdirSync, existsSync } from "fs";
+import { join, resolve, extname } from "path";
+import { homedir } from "os";
+import { runCommand, describeFailure } from "./process.ts";
+
+// --- Types ---
+export interface AttachmentsConfig {
+  enabled?: boolean; // default true
+  dir?: string; // inside the agent's workdir (default "inbox")
+  maxSizeMb?: number; // per file (default 20 — the most a Telegram bot can download)
+  types?: string[]; // MIME types ("image/*", "application/pdf") or extensions (".csv")
+  transcribe?: string; // command that prints a transcript of {file}
+  transcribeTimeout?: number; // seconds (default 120)
+}
+
+export interface Attachment {
+  kind: "image" | "voice" | "file";
+  name: string; // the sender's file name, or one made up for photos and voice notes
+  mime?: string;
+  size?: number; // bytes, when the platform says
+  duration?: number; // seconds, for voice notes
+  url: () => Promise<string>; // resolved at download time (Telegram needs a getFile call)
+}
+
+interface Saved {
+  attachment: Attachment;
+  path?: string; // relative to the workdir
+  size: number;
+  transcript?: string;
+  problem?: string;
+}
+
+export const DEFAULT_INBOX_DIR = "inbox";
+export const DEFAULT_MAX_SIZE_MB = 20;
+export const DEFAULT_TYPES = [
+  "image/*",
+  "audio/*",
+  "text/*",
+  "application/pdf",
+  "application/json",
+  ".csv",
+  ".md",
+  ".txt",
+  ".json",
+  ".pdf",
+];
+const DEFAULT_TRANSCRIBE_TIMEOUT = 120;
+
+// --- State ---
+let settings: AttachmentsConfig = {};
+
+/** Apply `chat.attachments` (used at startup and on config reload). */
+export function setAttachments(config: AttachmentsConfig = {}) {
+  settings = config;
+}
+
+function expandPath(p: string): string {
+  if (p.startsWith("~/")) return join(homedir(), p.slice(2));
+  return resolve(p);
+}
+
+function shellQuote(s: string): string {
+  return `'${s.replace(/'/g, "'\\''")}'`;
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${+(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+/** Schema check for `dir` — it has to stay inside the workdir. */
+export function checkInboxDir(value: string): string | undefined {
+  return value.startsWith("/") || value.startsWith("~") || value.split(/[\\/]/).includes("..")
+    ? "must be a relative path inside the agent's workdir"
+    : undefined;
+}
+
+// --- Checking ---
+function allowed(a: Attachment, types: string[]): boolean {
+  const ext = extname(a.name).toLowerCase();
+  const mime = a.mime?.toLowerCase();
+  return types.some((t) => {
+    const type = t.toLowerCase();
+    if (type.startsWith(".")) return ext === type;
+    if (!mime) return false;
+    return type.endsWith("/*") ? mime.startsWith(type.slice(0, -1)) : mime === type;
+  });
+}
+
+/**
+ * Split a message's attachments into those the agent will get and
+ * one-line reasons for the rest, from what the platform says about them.
+ */
+export function checkAttachments(attachments: Attachment[]): {
+  accepted: Attachment[];
+  rejected: string[];
+} {
+  const accepted: Attachment[] = [];
+  const rejected: string[] = [];
+  const maxBytes = (settings.maxSizeMb ?? DEFAULT_MAX_SIZE_MB) * 1024 * 1024;
+  const types = settings.types ?? DEFAULT_TYPES;
+
+  for (const a of attachments) {
+    if (settings.enabled === false) {
+      rejected.push(`${a.name} — attachments are turned off`);
+    } else if (a.size !== undefined && a.size > maxBytes) {
+      rejected.push(`${a.name} — ${formatSize(a.size)} is over the ${formatSize(maxBytes)} limit`);
+    } else if (!allowed(a, types)) {
+      rejected.push(`${a.name} — ${a.mime ?? "this type"} isn't allowed (chat.attachments.types)`);
+    } else {
+      accepted.push(a);
+    }
+  }
+  return { accepted, rejected };
+}
+
+// --- Saving ---
+
+/** "2026-10-19-071502-report.pdf" — unique enough, sorted by arrival, safe on any filesystem. */
+function inboxName(name: string, index: number): string {
+  const iso = new Date().toISOString();
+  const stamp = `${iso.slice(0, 10)}-${iso.slice(11, 19).replace(/:/g, "")}`;
+  const safe = name.replace(/[^\w.-]+/g, "-").replace(/^[.-]+/, "") || "file";
+  return `${stamp}${index ? `-${index}` : ""}-${safe}`;
+}
+
+async function download(a: Attachment, file: string): Promise<number> {
+  const maxBytes = (settings.maxSizeMb ?? DEFAULT_MAX_SIZE_MB) * 1024 * 1024;
+  const res = await fetch(await a.url());
+  if (!res.ok) throw new Error(`download failed (HTTP ${res.status})`);
+  const data = await res.arrayBuffer();
+  // The platform's size is only a claim — check what actually arrived
+  if (data.byteLength > maxBytes) throw new Error(`${formatSize(data.byteLength)} is over the limit`);
+  writeFileSync(file, new Uint8Array(data));
+  return data.byteLength;
+}
+
+async function transcribe(file: string, cwd: string): Promise<string> {
+  const command = settings.transcribe!;
+  const cmd = command.includes("{file}")
+    ? command.replaceAll("{file}", shellQuote(file))
+    : `${command} ${shellQuote(file)}`;
+  const timeoutSec = settings.transcribeTimeout ?? DEFAULT_TRANSCRIBE_TIMEOUT;
+  const result = await runCommand(cmd, { cwd, timeoutMs: timeoutSec * 1000 });
+  if (result.exitCode !== 0 || result.timedOut) throw new Error(describeFailure(result, timeoutSec));
+  return result.stdout.trim();
+}
+
+async function save(a: Attachment, index: number, workdir: string): Promise<Saved> {
+  const dir = settings.dir ?? DEFAULT_INBOX_DIR;
+  const inbox = join(workdir, dir);
+  if (!existsSync(inbox)) mkdirSync(inbox, { recursive: true });
+  const path = join(dir, inboxName(a.name, index));
+
+  let size: number;
+  try {
+    size = await download(a, join(workdir, path));
+  } catch (err: any) {
+    console.warn(`⚠️  Couldn't download ${a.name}: ${err.message}`);
+    return { attachment: a, size: 0, problem: `couldn't be downloaded: ${err.message}` };
+  }
+
+  if (a.kind !== "voice" || !settings.transcribe) return { attachment: a, path, size };
+  try {
+    return { attachment: a, path, size, transcript: await transcribe(join(workdir, path), workdir) };
+  } catch (err: any) {
+    console.warn(`⚠️  Couldn't transcribe ${path}: ${err.message}`);
+    return { attachment: a, path, size, problem: `transcription failed: ${err.message.slice(0, 200)}` };
+  }
+}
+
+// --- Prompt ---
+function describeSaved(s: Saved): string {
+  const a = s.attachment;
+  if (!s.path) return `- ${a.name} — ${s.problem}`;
+  const length = a.duration ? `, ${Math.floor(a.duration / 60)}:${String(a.duration % 60).padStart(2, "0")}` : "";
+  const kind = a.kind === "voice" ? `voice note${length}` : a.mime ?? a.kind;
+  const lines = [`- ${s.path} (${kind}, ${formatSize(s.size)})`];
+  if (s.transcript) lines.push(`  Transcript: ${s.transcript}`);
+  else if (s.problem) lines.push(`  (${s.problem})`);
+  else if (a.kind === "voice") lines.push("  (no transcription command is configured)");
+  return lines.join("\n");
+}
+
+/**
+ * Download `attachments` into `workdir`'s inbox and build the prompt that
+ * points the agent at them. Throws when there's nothing left to send —
+ * no caption, and not a single file arrived.
+ */
+export async function attachmentPrompt(
+  workdir: string,
+  caption: string,
+  attachments: Attachment[]
+): Promise<string> {
+  const root = expandPath(workdir);
+  const saved: Saved[] = [];
+  for (const [i, a] of attachments.entries()) saved.push(await save(a, i, root));
+
+  const arrived = saved.filter((s) => s.path);
+  if (!caption.trim() && !arrived.length) {
+    throw new Error(saved.map((s) => `${s.attachment.name} ${s.problem}`).join("; "));
+  }
+
+  // A voice note on its own is the message
+  const spoken = saved.filter((s) => s.transcript).map((s) => s.transcript);
+  const instruction =
+    caption.trim() ||
+    (spoken.length === saved.length ? spoken.join("\n\n") : "") ||
+    `Have a look at the attached file${saved.length === 1 ? "" : "s"}.`;
+
+  const heading = `Attachments (paths relative to your working directory):`;
+  return `${instruction}\n\n---\n${heading}\n${saved.map(describeSaved).join("\n")}`;
+}
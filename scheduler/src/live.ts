@@ -0,0 +1,170 @@
+/**
+ * Live progress — a chat message that follows a run while it works.
+ *
+ * The run's stream-json events (see result.ts) are fed in as they arrive;
+ * a placeholder message is posted at the start and edited with the tool
+ * calls, files touched and elapsed time, then finalized with the outcome.
+ * The answer itself still goes out as a new message, since edits don't
+ * notify anyone.
+ *
+ * Each channel supplies a LiveTarget: how to post and edit, and how often
+ * it may edit. Edits are coalesced to at most one per `intervalMs`, and a
+ * rate-limited edit (HTTP 429) waits out the retry time it was given
+ * before trying again with whatever is newest by then. The final edit
+ * goes out at once unless a rate limit is still running.
+ */
+
+import { formatSpan } from "./watchdog.ts";
+import { toolSummary } from "./result.ts";
+
+// --- Types ---
+export interface LiveTarget {
+  intervalMs: number; // min time between edits of one message
+  post(text: string): Promise<string | undefined>; // → message id
+  edit(id: string, text: string): Promise<number>; // → 0 when done, else ms to wait (rate limited)
+}
+
+export interface LiveProgress {
+  feed(line: string): void; // one stream-json line
+  finish(outcome: string): Promise<void>; // e.g. "✅ done"
+}
+
+const RECENT_STEPS = 4;
+const MAX_STEP_CHARS = 100;
+const FINISH_ATTEMPTS = 3;
+
+// --- Throttled message ---
+
+/** One message on `target`, showing `render()` as of each edit. */
+function follow(target: LiveTarget, render: () => string) {
+  let id: Promise<string | undefined> | undefined;
+  let shown = "";
+  let finalText: string | undefined;
+  let notBefore = 0; // next regular edit
+  let limitedUntil = 0; // end of a rate limit — the final edit only waits for this
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let chain: Promise<unknown> = Promise.resolve(); // edits go out one at a time, in order
+
+  const push = async (final: boolean) => {
+    const msgId = await id;
+    for (let attempt = 1; msgId; attempt++) {
+      const wait = (final ? limitedUntil : notBefore) - Date.now();
+      if (wait > 0) {
+        if (!final) return schedule();
+        await new Promise((r) => setTimeout(r, wait));
+      }
+      const text = finalText ?? render();
+      if (text === shown) return;
+      const retryAfter = await target.edit(msgId, text).catch(() => 0);
+      limitedUntil = Date.now() + retryAfter;
+      notBefore = Date.now() + Math.max(retryAfter, target.intervalMs);
+      if (!retryAfter) shown = text;
+      else if (!final) return schedule();
+      else if (attempt >= FINISH_ATTEMPTS) return;
+    }
+  };
+
+  function schedule() {
+    if (timer || finalText !== undefined) return;
+    timer = setTimeout(() => {
+      timer = undefined;
+      chain = chain.then(() => push(false));
+    }, Math.max(0, notBefore - Date.now()));
+  }
+
+  return {
+    update() {
+      if (id) return schedule();
+      shown = render();
+      notBefore = Date.now() + target.intervalMs;
+      id = target.post(shown).catch(() => undefined);
+    },
+    finish(text: string): Promise<unknown> {
+      clearTimeout(timer);
+      timer = undefined;
+      finalText = text;
+      if (!id) return target.post(text).catch(() => undefined);
+      chain = chain.then(() => push(true));
+      return chain;
+    },
+  };
+}
+
+// --- Progress ---
+function basename(path: string): string {
+  return path.split("/").filter(Boolean).pop() ?? path;
+}
+
+function clip(text: string): string {
+  const line = text.split("\n")[0].trim();
+  return line.length > MAX_STEP_CHARS ? `${line.slice(0, MAX_STEP_CHARS - 1)}…` : line;
+}
+
+/**
+ * Follow a run on `targets`. `title` heads the message ("researcher — reply #12").
+ * With no targets this does nothing, so callers needn't check.
+ */
+export function startLiveProgress(title: string, targets: LiveTarget[]): LiveProgress {
+  if (targets.length === 0) return { feed() {}, finish: async () => {} };
+
+  const startedAt = Date.now();
+  const files = new Set<string>();
+  const recent: string[] = [];
+  let toolCalls = 0;
+
+  const counts = () => {
+    const parts = [`${toolCalls} tool call${toolCalls === 1 ? "" : "s"}`];
+    if (files.size) parts.push(`${files.size} file${files.size === 1 ? "" : "s"}`);
+    return parts.join(" · ");
+  };
+
+  const render = () => {
+    const elapsed = formatSpan((Date.now() - startedAt) / 1000);
+    const lines = [`⏳ ${title} · ${elapsed}`, `🔧 ${counts()}`];
+    if (files.size) lines.push(`📄 ${[...files].slice(-3).map(basename).join(", ")}`);
+    if (recent.length) lines.push("", ...recent);
+    return lines.join("\n");
+  };
+
+  const messages = targets.map((t) => follow(t, render));
+  const refresh = () => messages.forEach((m) => m.update());
+  refresh();
+  // Keeps the elapsed time moving while claude is thinking
+  const ticker = setInterval(refresh, Math.max(...targets.map((t) => t.intervalMs)));
+
+  const step = (text: string) => {
+    recent.push(clip(text));
+    if (recent.length > RECENT_STEPS) recent.shift();
+  };
+
+  return {
+    feed(line: string) {
+      let event: any;
+      try {
+        event = JSON.parse(line);
+      } catch {
+        return;
+      }
+      if (event?.type !== "assistant") return;
+      for (const block of event.message?.content || []) {
+        if (block.type === "tool_use") {
+          toolCalls++;
+          const input = block.input ?? {};
+          const file = input.file_path ?? input.notebook_path ?? input.path;
+          if (typeof file === "string") files.add(file);
+          step(toolSummary(block.name, input));
+        } else if (block.type === "text" && block.text?.trim()) {
+          step(`💭 ${block.text}`);
+        }
+      }
+      refresh();
+    },
+
+    async finish(outcome: string) {
+      clearInterval(ticker);
+      const elapsed = formatSpan((Date.now() - startedAt) / 1000);
+      const text = `${outcome} · ${title} · ${elapsed}\n🔧 ${counts()}`;
+      await Promise.all(messages.map((m) => m.finish(text)));
+    },
+  };
+}
@@ -16,7 +16,11 @@ const jobName = process.argv[2];
 if (!jobName) {
   console.log("Usage: bun run logs <job-name>\n");
   try {
-    const files = readdirSync(LOGS_DIR).sort().reverse().slice(0, 20);
+    const files = readdirSync(LOGS_DIR)
+      .filter((f) => f.endsWith(".log"))
+      .sort()
+      .reverse()
+      .slice(0, 20);
     console.log("Recent logs:");
     for (const f of files) {
       console.log(`  ${f}`);
@@ -30,7 +34,7 @@ if (!jobName) {
 // Find most recent log for this job
 try {
   const files = readdirSync(LOGS_DIR)
-    .filter((f) => f.startsWith(jobName))
+    .filter((f) => f.startsWith(jobName) && f.endsWith(".log"))
     .sort()
     .reverse();
 
@@ -0,0 +1,177 @@
+/**
+ * Prometheus metrics — served at /metrics by the HTTP API.
+ *
+ * Run counts, durations, last successes, cost and tokens are computed from
+ * the run store at scrape time, so they survive restarts and match
+ * `bun run history`. Queue state comes from the live daemon; channel send
+ * failures and listener reconnects are counted in memory since start.
+ */
+
+import type { Config } from "./config.ts";
+import type { QueueSnapshot } from "./queue.ts";
+import { runTotals, durationHistogram, lastSuccesses } from "./store.ts";
+import { overdueNow } from "./watchdog.ts";
+
+// --- Types ---
+export type ChannelName = "telegram" | "discord";
+
+export interface LiveState {
+  startedAt: string;
+  paused: string[];
+  queue: QueueSnapshot;
+}
+
+// Run durations span seconds (heartbeats) to an hour (long jobs)
+const DURATION_BUCKETS = [5, 15, 30, 60, 120, 300, 600, 1800, 3600];
+
+// --- Counters ---
+const sendFailures: Record<ChannelName, number> = { telegram: 0, discord: 0 };
+const reconnects: Record<ChannelName, number> = { telegram: 0, discord: 0 };
+
+/** A message to Telegram/Discord couldn't be sent. */
+export function countSendFailure(channel: ChannelName) {
+  sendFailures[channel]++;
+}
+
+/** A channel listener lost its connection and is retrying. */
+export function countReconnect(channel: ChannelName) {
+  reconnects[channel]++;
+}
+
+// --- Exposition ---
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function labels(pairs: Record<string, string>): string {
+  const parts = Object.entries(pairs).map(([k, v]) => `${k}="${escapeLabel(v)}"`);
+  return parts.length ? `{${parts.join(",")}}` : "";
+}
+
+const seconds = (iso: string) => (new Date(iso).getTime() / 1000).toFixed(3);
+
+/** The text exposition format for one scrape. */
+export function renderMetrics(config: Config, live: LiveState): string {
+  const lines: string[] = [];
+  const out = {
+    family(name: string, type: "counter" | "gauge" | "histogram", help: string) {
+      lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+    },
+    sample(name: string, pairs: Record<string, string>, value: number | string) {
+      lines.push(`${name}${labels(pairs)} ${value}`);
+    },
+  };
+
+  out.family("ocalt_start_time_seconds", "gauge", "When the daemon started, in unix seconds.");
+  out.sample("ocalt_start_time_seconds", {}, seconds(live.startedAt));
+
+  // --- Runs ---
+  const totals = runTotals();
+  out.family("ocalt_runs_total", "counter", 'Finished runs by outcome. Chat replies are job="(chat)".');
+  for (const t of totals) {
+    out.sample("ocalt_runs_total", { agent: t.agent, job: t.job, status: t.status }, t.runs);
+  }
+
+  const histogram = durationHistogram(DURATION_BUCKETS);
+  out.family("ocalt_run_duration_seconds", "histogram", "How long finished runs took.");
+  for (const h of histogram) {
+    const base = { agent: h.agent, job: h.job };
+    DURATION_BUCKETS.forEach((le, i) =>
+      out.sample("ocalt_run_duration_seconds_bucket", { ...base, le: String(le) }, h.buckets[i])
+    );
+    out.sample("ocalt_run_duration_seconds_bucket", { ...base, le: "+Inf" }, h.count);
+    out.sample("ocalt_run_duration_seconds_sum", base, h.sum.toFixed(3));
+    out.sample("ocalt_run_duration_seconds_count", base, h.count);
+  }
+
+  out.family(
+    "ocalt_last_success_timestamp_seconds",
+    "gauge",
+    "When the job last finished ok (or suppressed), in unix seconds."
+  );
+  for (const s of lastSuccesses()) {
+    out.sample("ocalt_last_success_timestamp_seconds", { agent: s.agent, job: s.job }, seconds(s.finished_at));
+  }
+
+  out.family(
+    "ocalt_job_overdue",
+    "gauge",
+    "Jobs past their expectSuccessWithin, as of the daemon's last check (checked every minute)."
+  );
+  for (const o of overdueNow()) {
+    out.sample("ocalt_job_overdue", { agent: o.agent, job: o.job }, 1);
+  }
+
+  // --- Cost and tokens (summed over statuses) ---
+  const usage = new Map<string, { agent: string; job: string; cost: number; tokens: Record<string, number> }>();
+  for (const t of totals) {
+    const key = `${t.agent}/${t.job}`;
+    const u = usage.get(key) || {
+      agent: t.agent,
+      job: t.job,
+      cost: 0,
+      tokens: { input: 0, output: 0, cache_read: 0, cache_write: 0 },
+    };
+    u.cost += t.cost_usd;
+    u.tokens.input += t.input_tokens;
+    u.tokens.output += t.output_tokens;
+    u.tokens.cache_read += t.cache_read_tokens;
+    u.tokens.cache_write += t.cache_write_tokens;
+    usage.set(key, u);
+  }
+
+  out.family("ocalt_cost_usd_total", "counter", "Cost reported by claude, in USD.");
+  for (const u of usage.values()) {
+    out.sample("ocalt_cost_usd_total", { agent: u.agent, job: u.job }, u.cost.toFixed(6));
+  }
+
+  out.family("ocalt_tokens_total", "counter", "Tokens reported by claude, by type.");
+  for (const u of usage.values()) {
+    for (const [type, n] of Object.entries(u.tokens)) {
+      out.sample("ocalt_tokens_total", { agent: u.agent, job: u.job, type }, n);
+    }
+  }
+
+  // --- Queues ---
+  out.family("ocalt_queue_running", "gauge", "Whether the agent is running something (1) or idle (0).");
+  for (const agent of config.agents) {
+    out.sample("ocalt_queue_running", { agent: agent.name }, live.queue[agent.name]?.running ? 1 : 0);
+  }
+
+  out.family("ocalt_queue_waiting", "gauge", "Runs waiting for the agent.");
+  for (const agent of config.agents) {
+    out.sample("ocalt_queue_waiting", { agent: agent.name }, live.queue[agent.name]?.waiting.length ?? 0);
+  }
+
+  out.family(
+    "ocalt_running_since_timestamp_seconds",
+    "gauge",
+    "When the agent's current run started, in unix seconds."
+  );
+  for (const [agent, q] of Object.entries(live.queue)) {
+    if (!q.running) continue;
+    out.sample(
+      "ocalt_running_since_timestamp_seconds",
+      { agent, run: q.running.label, source: q.running.source },
+      seconds(q.running.startedAt)
+    );
+  }
+
+  out.family("ocalt_paused", "gauge", 'Paused targets: "*", an agent, or agent/job.');
+  for (const target of live.paused) {
+    out.sample("ocalt_paused", { target }, 1);
+  }
+
+  // --- Channels ---
+  out.family("ocalt_channel_send_failures_total", "counter", "Messages that couldn't be sent, since start.");
+  for (const [channel, n] of Object.entries(sendFailures)) {
+    out.sample("ocalt_channel_send_failures_total", { channel }, n);
+  }
+
+  out.family("ocalt_channel_reconnects_total", "counter", "Listener connection losses, since start.");
+  for (const [channel, n] of Object.entries(reconnects)) {
+    out.sample("ocalt_channel_reconnects_total", { channel }, n);
+  }
+
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,55 @@
+/**
+ * Paused jobs — "*" (everything), "agent" or "agent/job".
+ *
+ * Scheduled, caught-up and pipeline runs of a paused job are skipped; a
+ * manual trigger still runs. Pauses are kept in .paused.json, so they last
+ * until resumed — across restarts too — and `bun run status` can show them
+ * while the daemon is down.
+ */
+
+import { readFileSync, writeFileSync } from "fs";
+import { join, resolve } from "path";
+
+// --- Paths ---
+const ROOT = resolve(import.meta.dir, "..");
+export const PAUSED_FILE = join(ROOT, ".paused.json");
+
+function load(): Set<string> {
+  try {
+    return new Set(JSON.parse(readFileSync(PAUSED_FILE, "utf-8")));
+  } catch {
+    return new Set();
+  }
+}
+
+const paused = load();
+
+function save() {
+  writeFileSync(PAUSED_FILE, JSON.stringify([...paused], null, 2));
+}
+
+// --- Lookup ---
+export function pausedTargets(): string[] {
+  return [...paused];
+}
+
+export function isPaused(agent: string, job: string): boolean {
+  return paused.has("*") || paused.has(agent) || paused.has(`${agent}/${job}`);
+}
+
+// --- Changes ---
+export function pause(target: string) {
+  paused.add(target);
+  save();
+}
+
+/** Lift a pause — "*" lifts every pause. False when `target` wasn't paused itself. */
+export function resume(target: string): boolean {
+  if (target === "*") {
+    paused.clear();
+  } else if (!paused.delete(target)) {
+    return false;
+  }
+  save();
+  return true;
+}
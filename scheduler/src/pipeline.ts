@@ -0,0 +1,199 @@
+/**
+ * Job pipelines — run jobs after other jobs and pass their output along.
+ *
+ * A job's `after` lists the upstream jobs it depends on, each with a
+ * condition. Once every upstream has finished with a matching outcome the
+ * downstream job is queued, with the upstream output appended to its prompt
+ * (or placed by `{{upstream}}` — see template.ts).
+ *
+ *   "after": "morning-scan"                              (same agent)
+ *   "after": { "job": "researcher/morning-scan", "on": "always" }
+ *   "after": ["researcher/morning-scan", "ops/heartbeat"]
+ *
+ * Upstream output is read from the run store, so it's still there for a
+ * downstream run that's caught up or retried after a restart.
+ */
+
+import { jobSummary, runOutput } from "./store.ts";
+import { extractMarkers } from "./artifacts.ts";
+
+// --- Types ---
+export type DependencyCondition = "success" | "failure" | "always";
+
+export interface JobDependency {
+  job: string; // "agent/job", or just "job" for the same agent
+  on?: DependencyCondition; // default "success"
+}
+
+export type JobAfter = string | JobDependency | Array<string | JobDependency>;
+
+interface PipelineJob {
+  name: string;
+  schedule?: string;
+  after?: JobAfter;
+}
+
+interface PipelineAgent {
+  name: string;
+  jobs: PipelineJob[];
+}
+
+export interface PipelineIssue {
+  job: string; // "agent/job" the problem is reported against
+  message: string;
+}
+
+export interface UpstreamOutput {
+  status: string;
+  output: string;
+  finishedAt: string;
+}
+
+interface Edge {
+  upstream: string; // "agent/job"
+  on: DependencyCondition;
+}
+
+const MAX_UPSTREAM_OUTPUT = 20_000; // chars per upstream job
+
+// --- State ---
+const edges = new Map<string, Edge[]>(); // downstream key → its dependencies
+const satisfied = new Map<string, Set<string>>(); // downstream key → upstreams done
+
+// --- Graph ---
+export function dependenciesOf(agentName: string, after?: JobAfter): Edge[] {
+  if (!after) return [];
+  const list = Array.isArray(after) ? after : [after];
+  return list.map((d) => {
+    const dep = typeof d === "string" ? { job: d } : d;
+    return {
+      upstream: dep.job.includes("/") ? dep.job : `${agentName}/${dep.job}`,
+      on: dep.on || "success",
+    };
+  });
+}
+
+/**
+ * Check that every job can fire, that every `after` reference resolves,
+ * and that no pipeline loops back on itself (every cycle is reported).
+ * Returns the problems found; empty when the pipelines are sound.
+ */
+export function checkPipelines(agents: PipelineAgent[]): PipelineIssue[] {
+  const errors: PipelineIssue[] = [];
+  const known = new Set(agents.flatMap((a) => a.jobs.map((j) => `${a.name}/${j.name}`)));
+  const graph = new Map<string, string[]>();
+
+  for (const agent of agents) {
+    for (const job of agent.jobs) {
+      const key = `${agent.name}/${job.name}`;
+      const deps = dependenciesOf(agent.name, job.after);
+      if (!job.schedule && deps.length === 0) {
+        errors.push({ job: key, message: `needs a "schedule", an "after", or both` });
+      }
+      for (const dep of deps) {
+        if (!known.has(dep.upstream)) {
+          errors.push({ job: key, message: `"after" refers to unknown job "${dep.upstream}"` });
+        }
+      }
+      graph.set(key, deps.map((d) => d.upstream).filter((u) => known.has(u)));
+    }
+  }
+
+  // Depth-first search; a node seen again while still on the stack is a cycle
+  const visiting = new Set<string>();
+  const done = new Set<string>();
+  const stack: string[] = [];
+
+  const visit = (key: string) => {
+    if (done.has(key)) return;
+    if (visiting.has(key)) {
+      const cycle = [...stack.slice(stack.indexOf(key)), key];
+      errors.push({ job: key, message: `pipeline cycle: ${cycle.join(" → ")}` });
+      return;
+    }
+    visiting.add(key);
+    stack.push(key);
+    for (const upstream of graph.get(key) || []) visit(upstream);
+    stack.pop();
+    visiting.delete(key);
+    done.add(key);
+  };
+
+  for (const key of graph.keys()) visit(key);
+
+  return errors;
+}
+
+/** (Re)build the dependency map. Call after `checkPipelines` passes. */
+export function registerPipelines(agents: PipelineAgent[]) {
+  edges.clear();
+  satisfied.clear();
+  for (const agent of agents) {
+    for (const job of agent.jobs) {
+      const deps = dependenciesOf(agent.name, job.after);
+      if (deps.length) edges.set(`${agent.name}/${job.name}`, deps);
+    }
+  }
+}
+
+// --- Runtime ---
+function matches(on: DependencyCondition, status: string): boolean {
+  const success = status === "ok" || status === "suppressed";
+  const failure = status === "error" || status === "timeout";
+  if (on === "success") return success;
+  if (on === "failure") return failure;
+  return success || failure; // a cancelled run never triggers downstream jobs
+}
+
+/**
+ * Record a finished run and return the downstream jobs ("agent/job")
+ * whose dependencies are now all satisfied.
+ */
+export function recordOutcome(key: string, status: string): string[] {
+  const ready: string[] = [];
+  for (const [downstream, deps] of edges) {
+    const dep = deps.find((d) => d.upstream === key);
+    if (!dep) continue;
+
+    const done = satisfied.get(downstream) || new Set<string>();
+    if (matches(dep.on, status)) done.add(key);
+    else done.delete(key);
+
+    if (deps.every((d) => done.has(d.upstream))) {
+      satisfied.delete(downstream);
+      ready.push(downstream);
+    } else {
+      satisfied.set(downstream, done);
+    }
+  }
+  return ready;
+}
+
+/** The latest finished run of `key` ("agent/job") in the run store. */
+export function latestOutput(key: string): UpstreamOutput | undefined {
+  const [agent, job] = key.split("/");
+  const last = jobSummary(agent, job).last;
+  if (!last) return undefined;
+  // Without the ATTACH lines — those files went out with the upstream run
+  const { text } = extractMarkers(runOutput(last));
+  return {
+    status: last.status,
+    output: text.length > MAX_UPSTREAM_OUTPUT ? text.slice(-MAX_UPSTREAM_OUTPUT) : text,
+    finishedAt: last.finished_at!,
+  };
+}
+
+/** Prompt section with the latest output of each of `key`'s upstream jobs. */
+export function upstreamContext(key: string): string {
+  const sections: string[] = [];
+  for (const dep of edges.get(key) || []) {
+    const out = latestOutput(dep.upstream);
+    if (!out) continue;
+    sections.push(
+      `## ${dep.upstream} (${out.status}, finished ${out.finishedAt})\n\n${out.output}\n`
+    );
+  }
+  return sections.length > 0
+    ? `# Output from upstream jobs\n\n${sections.join("\n")}`
+    : "";
+}
@@ -0,0 +1,191 @@
+/**
+ * Process control — stop whole process trees, run claude with a hard timeout.
+ *
+ * `claude` spawns its own children (tool calls, MCP servers, shells), so
+ * killing only the direct child leaves work running. Everything here walks
+ * the full tree and escalates SIGTERM → SIGKILL after a grace period.
+ */
+
+import { spawn, execSync } from "child_process";
+import { readFileSync } from "fs";
+
+// --- Types ---
+export type StopReason = "exited" | "sigterm" | "sigkill";
+
+export interface CommandResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  timedOut: boolean;
+  cancelled: boolean;
+  stoppedBy?: StopReason;
+}
+
+export const DEFAULT_KILL_GRACE = 10; // seconds
+
+// --- Process tree ---
+function descendants(pid: number): number[] {
+  let table = "";
+  try {
+    table = execSync("ps -A -o pid=,ppid=", { encoding: "utf-8" });
+  } catch {
+    return [];
+  }
+
+  const children = new Map<number, number[]>();
+  for (const line of table.trim().split("\n")) {
+    const [child, parent] = line.trim().split(/\s+/).map(Number);
+    if (!children.has(parent)) children.set(parent, []);
+    children.get(parent)!.push(child);
+  }
+
+  const found: number[] = [];
+  const queue = [pid];
+  while (queue.length) {
+    for (const child of children.get(queue.shift()!) || []) {
+      found.push(child);
+      queue.push(child);
+    }
+  }
+  return found;
+}
+
+export function isAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+  } catch {
+    return false;
+  }
+  // A zombie still answers signal 0 until its parent reaps it
+  try {
+    return !/^\d+ \(.*\) Z/.test(readFileSync(`/proc/${pid}/stat`, "utf-8"));
+  } catch {
+    return true; // no procfs (macOS)
+  }
+}
+
+function signalAll(pids: number[], signal: NodeJS.Signals) {
+  for (const pid of pids) {
+    try {
+      process.kill(pid, signal);
+    } catch {}
+  }
+}
+
+/**
+ * Stop `pid` and all of its descendants: SIGTERM first, SIGKILL whatever
+ * is still alive after `graceMs`. Resolves with how the tree was stopped.
+ */
+export async function stopProcessTree(
+  pid: number,
+  graceMs: number = DEFAULT_KILL_GRACE * 1000
+): Promise<StopReason> {
+  if (!isAlive(pid)) return "exited";
+
+  // Snapshot the tree before signalling — children get reparented once
+  // their parent dies and would no longer be found by walking from `pid`.
+  const tree = [pid, ...descendants(pid)];
+  signalAll(tree, "SIGTERM");
+
+  const deadline = Date.now() + graceMs;
+  while (Date.now() < deadline) {
+    if (!tree.some(isAlive)) return "sigterm";
+    await new Promise((r) => setTimeout(r, 250));
+  }
+
+  const remaining = tree.filter(isAlive);
+  signalAll([...remaining, ...remaining.flatMap(descendants)], "SIGKILL");
+  return "sigkill";
+}
+
+// --- Commands ---
+
+/**
+ * Run a shell command as a child process. On timeout or abort the whole
+ * tree is stopped via `stopProcessTree`. `onLine` sees each stdout line as
+ * it arrives. Never rejects — inspect the result.
+ */
+export function runCommand(
+  cmd: string,
+  opts: {
+    cwd?: string;
+    timeoutMs: number;
+    graceMs?: number;
+    signal?: AbortSignal;
+    onLine?: (line: string) => void;
+  }
+): Promise<CommandResult> {
+  // Aborted before it started (e.g. while waiting for a worker slot)
+  if (opts.signal?.aborted) {
+    return Promise.resolve({ stdout: "", stderr: "", exitCode: null, timedOut: false, cancelled: true });
+  }
+
+  return new Promise((resolve) => {
+    const child = spawn("bash", ["-c", cmd], {
+      cwd: opts.cwd,
+      stdio: ["ignore", "pipe", "pipe"],
+    });
+
+    let stdout = "";
+    let stderr = "";
+    let timedOut = false;
+    let cancelled = false;
+    let stopping: Promise<StopReason> | undefined;
+
+    let partial = "";
+    child.stdout.on("data", (d) => {
+      stdout += d;
+      if (!opts.onLine) return;
+      const lines = (partial + d).split("\n");
+      partial = lines.pop()!;
+      for (const line of lines) opts.onLine(line);
+    });
+    child.stderr.on("data", (d) => (stderr += d));
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      stopping ??= stopProcessTree(child.pid!, opts.graceMs);
+    }, opts.timeoutMs);
+
+    const onAbort = () => {
+      cancelled = true;
+      stopping ??= stopProcessTree(child.pid!, opts.graceMs);
+    };
+    opts.signal?.addEventListener("abort", onAbort);
+
+    const finish = async (exitCode: number | null) => {
+      clearTimeout(timer);
+      if (partial) opts.onLine?.(partial);
+      partial = "";
+      opts.signal?.removeEventListener("abort", onAbort);
+      const stoppedBy = stopping ? await stopping : undefined;
+      resolve({
+        stdout: stdout.trim(),
+        stderr: stderr.trim(),
+        exitCode,
+        timedOut,
+        cancelled,
+        stoppedBy,
+      });
+    };
+
+    child.on("error", (err) => {
+      stderr += err.message;
+      finish(null);
+    });
+    child.on("close", (code) => finish(code));
+  });
+}
+
+/** Short human-readable description of a failed `CommandResult`. */
+export function describeFailure(result: CommandResult, timeoutSec: number): string {
+  if (result.cancelled) {
+    return result.stoppedBy
+      ? `Cancelled (stopped with ${result.stoppedBy.toUpperCase()})`
+      : "Cancelled before it started";
+  }
+  if (result.timedOut) {
+    return `Timed out after ${timeoutSec}s (stopped with ${result.stoppedBy?.toUpperCase()})`;
+  }
+  return `Exit ${result.exitCode}: ${(result.stderr || result.stdout).slice(-500)}`;
+}
@@ -0,0 +1,11 @@
+#!/usr/bin/env bun
+/**
+ * Render claude's stream-json output as readable progress.
+ * Used by job run scripts: claude ... --output-format stream-json | bun src/progress.ts
+ */
+
+import { describeEvent } from "./result.ts";
+
+for await (const line of console) {
+  for (const out of describeEvent(line)) console.log(out);
+}
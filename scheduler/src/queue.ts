@@ -0,0 +1,234 @@
+/**
+ * Per-agent run queue.
+ *
+ * Every run for an agent — cron jobs and chat-routed messages alike — goes
+ * through that agent's lane, so two runs never race on a session or
+ * the workdir. Different agents still run in parallel.
+ *
+ * What happens when a run arrives while the agent is busy is decided by
+ * its concurrency policy:
+ * - `queue`  — wait until the agent is free (default)
+ * - `skip`   — drop the new run
+ * - `cancel` — stop the running one, then run the new one
+ *
+ * On shutdown the queue is closed: waiting runs are dropped, running ones
+ * drain or are interrupted.
+ */
+
+// --- Types ---
+export type ConcurrencyPolicy = "queue" | "skip" | "cancel";
+
+export type RunSource =
+  | "cron"
+  | "catchup"
+  | "manual"
+  | "telegram"
+  | "discord"
+  | "dispatch"
+  | "pipeline";
+
+export interface RunTask {
+  label: string; // job name, or e.g. "reply" for chat messages
+  job?: string; // the run's job name in the run store (so it can be cancelled by name)
+  source: RunSource;
+  run: (signal: AbortSignal) => Promise<void>;
+}
+
+export type SubmitResult = "done" | "skipped" | "cancelled";
+
+interface Waiting {
+  task: RunTask;
+  queuedAt: string;
+  start: () => void;
+  drop: () => void;
+}
+
+interface Lane {
+  running?: { task: RunTask; startedAt: string; controller: AbortController };
+  waiting: Waiting[];
+}
+
+export interface QueueSnapshot {
+  [agent: string]: {
+    running: { label: string; source: RunSource; startedAt: string } | null;
+    waiting: Array<{ label: string; source: RunSource; queuedAt: string }>;
+  };
+}
+
+// Abort reason for runs stopped because the scheduler is shutting down
+export const SHUTDOWN = "shutdown";
+
+// --- State ---
+const lanes = new Map<string, Lane>();
+let closed = false;
+const idleWaiters: Array<() => void> = [];
+
+function lane(agent: string): Lane {
+  if (!lanes.has(agent)) lanes.set(agent, { waiting: [] });
+  return lanes.get(agent)!;
+}
+
+/** Running and waiting runs per agent — `bun run status` asks the daemon for this. */
+export function snapshot(): QueueSnapshot {
+  const snap: QueueSnapshot = {};
+  for (const [agent, l] of lanes) {
+    snap[agent] = {
+      running: l.running
+        ? { label: l.running.task.label, source: l.running.task.source, startedAt: l.running.startedAt }
+        : null,
+      waiting: l.waiting.map((w) => ({
+        label: w.task.label,
+        source: w.task.source,
+        queuedAt: w.queuedAt,
+      })),
+    };
+  }
+  return snap;
+}
+
+// --- Queue ---
+function startNext(agent: string) {
+  const l = lane(agent);
+  if (l.running) return;
+  const next = l.waiting.shift();
+  if (next) next.start();
+}
+
+/**
+ * Submit a run for `agent`. Resolves once the run has finished, or
+ * immediately with "skipped" when the policy drops it.
+ */
+export function submit(
+  agent: string,
+  task: RunTask,
+  policy: ConcurrencyPolicy = "queue"
+): Promise<SubmitResult> {
+  const l = lane(agent);
+
+  if (closed) {
+    console.log(`   ⏹️  ${agent}/${task.label} dropped — the scheduler is shutting down`);
+    return Promise.resolve("cancelled");
+  }
+
+  if (l.running) {
+    if (policy === "skip") {
+      console.log(
+        `   ⏭️  ${agent}/${task.label} skipped — ${agent} is busy with ${l.running.task.label}`
+      );
+      return Promise.resolve("skipped");
+    }
+    if (policy === "cancel") {
+      console.log(
+        `   🚫 ${agent}/${l.running.task.label} cancelled in favour of ${task.label}`
+      );
+      l.running.controller.abort();
+    }
+  }
+
+  return new Promise((resolve) => {
+    const start = () => {
+      const controller = new AbortController();
+      l.running = { task, startedAt: new Date().toISOString(), controller };
+
+      task
+        .run(controller.signal)
+        .catch((err) => console.error(`Run error (${agent}/${task.label}):`, err))
+        .finally(() => {
+          l.running = undefined;
+          resolve("done");
+          startNext(agent);
+          if (runningCount() === 0) idleWaiters.splice(0).forEach((wake) => wake());
+        });
+    };
+
+    l.waiting.push({
+      task,
+      queuedAt: new Date().toISOString(),
+      start,
+      drop: () => resolve("cancelled"),
+    });
+    if (l.running) {
+      console.log(
+        `   ⏳ ${agent}/${task.label} queued (${l.waiting.length} waiting)`
+      );
+    } else {
+      startNext(agent);
+    }
+  });
+}
+
+/** Runs for `agent` that a newly submitted run would wait behind. */
+export function pending(agent: string): number {
+  const l = lanes.get(agent);
+  return l ? (l.running ? 1 : 0) + l.waiting.length : 0;
+}
+
+/**
+ * Stop `agent`'s running run — only if it's a run of `job`, when given — and
+ * (unless `dropQueued` is false) `job`'s waiting runs. Returns the labels of
+ * what was stopped.
+ */
+export function cancel(
+  agent: string,
+  job?: string,
+  dropQueued = true
+): { running?: string; dropped: string[] } {
+  const l = lanes.get(agent);
+  if (!l) return { dropped: [] };
+
+  let running: string | undefined;
+  if (l.running && (!job || l.running.task.job === job)) {
+    running = l.running.task.label;
+    l.running.controller.abort();
+  }
+
+  const dropped: string[] = [];
+  if (job && dropQueued) {
+    l.waiting = l.waiting.filter((w) => {
+      if (w.task.job !== job) return true;
+      dropped.push(w.task.label);
+      w.drop();
+      return false;
+    });
+  }
+  return { running, dropped };
+}
+
+// --- Shutdown ---
+export function runningCount(): number {
+  return [...lanes.values()].filter((l) => l.running).length;
+}
+
+/**
+ * Stop taking runs: everything waiting is dropped, and so is anything
+ * submitted from now on. Returns the dropped runs as "agent/label".
+ */
+export function closeQueue(): string[] {
+  closed = true;
+  const dropped: string[] = [];
+  for (const [agent, l] of lanes) {
+    for (const w of l.waiting) {
+      dropped.push(`${agent}/${w.task.label}`);
+      w.drop();
+    }
+    l.waiting = [];
+  }
+  return dropped;
+}
+
+/** Resolves once no agent is running anything. */
+export function idle(): Promise<void> {
+  if (runningCount() === 0) return Promise.resolve();
+  return new Promise((resolve) => idleWaiters.push(resolve));
+}
+
+/** Stop every running run, with SHUTDOWN as the abort reason. Returns them as "agent/label". */
+export function interruptAll(): string[] {
+  const stopped: string[] = [];
+  for (const [agent, l] of lanes) {
+    if (!l.running) continue;
+    stopped.push(`${agent}/${l.running.task.label}`);
+    l.running.controller.abort(SHUTDOWN);
+  }
+  return stopped;
+}
@@ -0,0 +1,123 @@
+/**
+ * Config reload — work out what changed between two versions of config.json.
+ *
+ * The daemon applies the diff itself: only the CronJobs of added, removed
+ * or rescheduled jobs are touched, and new agents get their workspace and
+ * Discord channel. Jobs whose other fields changed need nothing — cron
+ * callbacks look the job up in the current config each time they fire.
+ */
+
+// --- Types ---
+interface ReloadJob {
+  name: string;
+  schedule?: string;
+}
+
+interface ReloadAgent {
+  name: string;
+  jobs: ReloadJob[];
+}
+
+interface ReloadConfig {
+  agents: ReloadAgent[];
+  telegram?: unknown;
+  discord?: unknown;
+  maintenance?: unknown;
+  quietHours?: unknown;
+  chat?: unknown;
+  shutdown?: unknown;
+  http?: unknown;
+}
+
+export interface ConfigDiff {
+  addedAgents: string[];
+  removedAgents: string[];
+  changedAgents: string[]; // agent-level settings changed (not its jobs)
+  addedJobs: string[]; // "agent/job"
+  removedJobs: string[];
+  rescheduledJobs: string[];
+  changedJobs: string[]; // anything but the schedule changed
+  channelsChanged: boolean; // telegram/discord settings — need a restart
+  windowsChanged: boolean; // maintenance windows or quiet hours — apply at once
+  settingsChanged: string[]; // "chat", "shutdown" — apply at once
+  httpChanged: boolean; // the HTTP API — needs a restart
+}
+
+function jobKeys(config: ReloadConfig): Map<string, ReloadJob> {
+  return new Map(
+    config.agents.flatMap((a) => a.jobs.map((j) => [`${a.name}/${j.name}`, j] as const))
+  );
+}
+
+function same(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+export function diffConfigs(prev: ReloadConfig, next: ReloadConfig): ConfigDiff {
+  const prevAgents = new Map(prev.agents.map((a) => [a.name, a]));
+  const nextAgents = new Map(next.agents.map((a) => [a.name, a]));
+  const prevJobs = jobKeys(prev);
+  const nextJobs = jobKeys(next);
+
+  const diff: ConfigDiff = {
+    addedAgents: [...nextAgents.keys()].filter((n) => !prevAgents.has(n)),
+    removedAgents: [...prevAgents.keys()].filter((n) => !nextAgents.has(n)),
+    changedAgents: [],
+    addedJobs: [...nextJobs.keys()].filter((k) => !prevJobs.has(k)),
+    removedJobs: [...prevJobs.keys()].filter((k) => !nextJobs.has(k)),
+    rescheduledJobs: [],
+    changedJobs: [],
+    channelsChanged: !same(prev.telegram, next.telegram) || !same(prev.discord, next.discord),
+    windowsChanged: !same(prev.maintenance, next.maintenance) || !same(prev.quietHours, next.quietHours),
+    settingsChanged: (["chat", "shutdown"] as const).filter((k) => !same(prev[k], next[k])),
+    httpChanged: !same(prev.http, next.http),
+  };
+
+  for (const [name, agent] of nextAgents) {
+    const old = prevAgents.get(name);
+    if (old && !same({ ...old, jobs: undefined }, { ...agent, jobs: undefined })) {
+      diff.changedAgents.push(name);
+    }
+  }
+
+  for (const [key, job] of nextJobs) {
+    const old = prevJobs.get(key);
+    if (!old) continue;
+    if (old.schedule !== job.schedule) diff.rescheduledJobs.push(key);
+    if (!same({ ...old, schedule: undefined }, { ...job, schedule: undefined })) {
+      diff.changedJobs.push(key);
+    }
+  }
+
+  return diff;
+}
+
+export function isEmptyDiff(diff: ConfigDiff): boolean {
+  return Object.values(diff).every((v) => (Array.isArray(v) ? v.length === 0 : !v));
+}
+
+/** Multi-line summary of a diff for the console and chat. */
+export function describeDiff(diff: ConfigDiff): string {
+  if (isEmptyDiff(diff)) return "No changes.";
+
+  const lines: string[] = [];
+  const add = (emoji: string, label: string, items: string[]) => {
+    if (items.length) lines.push(`${emoji} ${label}: ${items.join(", ")}`);
+  };
+  add("➕", "Agents added", diff.addedAgents);
+  add("➖", "Agents removed", diff.removedAgents);
+  add("✏️", "Agents changed", diff.changedAgents);
+  add("➕", "Jobs added", diff.addedJobs);
+  add("➖", "Jobs removed", diff.removedJobs);
+  add("🕐", "Jobs rescheduled", diff.rescheduledJobs);
+  add("✏️", "Jobs changed", diff.changedJobs);
+  if (diff.windowsChanged) lines.push("🚧 Maintenance windows or quiet hours changed");
+  add("⚙️", "Settings changed", diff.settingsChanged);
+  if (diff.channelsChanged) {
+    lines.push("⚠️ Telegram/Discord settings changed — restart the daemon to apply them");
+  }
+  if (diff.httpChanged) {
+    lines.push("⚠️ HTTP API settings changed — restart the daemon to apply them");
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,159 @@
+/**
+ * Structured run results — parse claude's `--output-format stream-json`.
+ *
+ * Jobs run with stream-json so the daemon gets the session id, cost, token
+ * usage and turn count of every run instead of scraping terminal text. The
+ * raw events are kept in `<log>.jsonl`; progress.ts turns the same stream
+ * into readable lines for the tmux window and the `.log` file.
+ */
+
+// --- Types ---
+export interface TokenUsage {
+  input: number;
+  output: number;
+  cacheRead: number;
+  cacheWrite: number;
+}
+
+export interface RunResult {
+  sessionId?: string;
+  isError: boolean;
+  subtype: string; // "success", "error_max_turns", "error_during_execution", …
+  text: string; // the final answer
+  costUsd?: number;
+  durationMs?: number;
+  apiDurationMs?: number;
+  turns?: number;
+  usage?: TokenUsage;
+}
+
+function parseLine(line: string): any {
+  try {
+    const event = JSON.parse(line);
+    return event && typeof event === "object" ? event : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function toUsage(usage: any): TokenUsage | undefined {
+  if (!usage) return undefined;
+  return {
+    input: usage.input_tokens ?? 0,
+    output: usage.output_tokens ?? 0,
+    cacheRead: usage.cache_read_input_tokens ?? 0,
+    cacheWrite: usage.cache_creation_input_tokens ?? 0,
+  };
+}
+
+/** Turn a `result` event (stream-json) or the whole `json` output into a RunResult. */
+export function toRunResult(event: any): RunResult {
+  return {
+    sessionId: event.session_id,
+    isError: !!event.is_error,
+    subtype: event.subtype || (event.is_error ? "error" : "success"),
+    text: typeof event.result === "string" ? event.result.trim() : "",
+    costUsd: event.total_cost_usd ?? event.cost_usd,
+    durationMs: event.duration_ms,
+    apiDurationMs: event.duration_api_ms,
+    turns: event.num_turns,
+    usage: toUsage(event.usage),
+  };
+}
+
+/**
+ * The result of a stream-json run. If claude died before its final event,
+ * whatever is known (the session id from `init`) is returned as an error.
+ */
+export function parseStreamResult(jsonl: string): RunResult | undefined {
+  let sessionId: string | undefined;
+  let result: RunResult | undefined;
+
+  for (const line of jsonl.split("\n")) {
+    const event = parseLine(line);
+    if (!event) continue;
+    if (event.session_id) sessionId = event.session_id;
+    if (event.type === "result") result = toRunResult(event);
+  }
+
+  if (result) return result;
+  if (!sessionId) return undefined;
+  return { sessionId, isError: true, subtype: "incomplete", text: "" };
+}
+
+// --- Formatting ---
+export function formatCost(usd: number): string {
+  return `$${usd < 1 ? usd.toFixed(4) : usd.toFixed(2)}`;
+}
+
+export function formatTokens(n: number): string {
+  return n >= 1000 ? `${(n / 1000).toFixed(1)}k` : String(n);
+}
+
+/** One-line summary, e.g. "3 turns · $0.0312 · 12.4k in / 830 out". */
+export function describeResult(result: RunResult): string {
+  const parts: string[] = [];
+  if (result.turns !== undefined) parts.push(`${result.turns} turn${result.turns === 1 ? "" : "s"}`);
+  if (result.costUsd !== undefined) parts.push(formatCost(result.costUsd));
+  if (result.usage) {
+    const input = result.usage.input + result.usage.cacheRead + result.usage.cacheWrite;
+    parts.push(`${formatTokens(input)} in / ${formatTokens(result.usage.output)} out`);
+  }
+  return parts.join(" · ");
+}
+
+/** "🔧 Bash: npm test" — a tool call on one line. */
+export function toolSummary(name: string, input: any): string {
+  const detail =
+    input?.command ?? input?.file_path ?? input?.path ?? input?.pattern ?? input?.url ?? input?.description;
+  const text = typeof detail === "string" ? detail : JSON.stringify(input ?? {});
+  const line = text.split("\n")[0];
+  return `🔧 ${name}: ${line.length > 120 ? `${line.slice(0, 117)}...` : line}`;
+}
+
+/**
+ * Readable lines for one stream-json line, or none for events not worth
+ * showing. Lines that aren't JSON are passed through untouched.
+ */
+export function describeEvent(line: string): string[] {
+  if (!line.trim()) return [];
+  const event = parseLine(line);
+  if (!event) return [line];
+
+  switch (event.type) {
+    case "system":
+      return event.subtype === "init"
+        ? [`🧠 Session ${event.session_id}${event.model ? ` · ${event.model}` : ""}`]
+        : [];
+
+    case "assistant": {
+      const out: string[] = [];
+      for (const block of event.message?.content || []) {
+        if (block.type === "text" && block.text?.trim()) out.push(block.text.trim());
+        if (block.type === "tool_use") out.push(toolSummary(block.name, block.input));
+      }
+      return out;
+    }
+
+    case "user": {
+      const out: string[] = [];
+      for (const block of event.message?.content || []) {
+        if (block.type !== "tool_result" || !block.is_error) continue;
+        const content = Array.isArray(block.content)
+          ? block.content.map((c: any) => c.text || "").join(" ")
+          : String(block.content ?? "");
+        out.push(`   ⚠️ ${content.split("\n")[0].slice(0, 200)}`);
+      }
+      return out;
+    }
+
+    case "result": {
+      const result = toRunResult(event);
+      const summary = describeResult(result);
+      return [`${result.isError ? "❌" : "🏁"} ${result.subtype}${summary ? ` · ${summary}` : ""}`];
+    }
+
+    default:
+      return [];
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * Retry policy for failed and timed-out runs.
+ *
+ * Set `retry` on an agent (default for all its jobs) and/or on a job; the
+ * job's fields override the agent's. Delays grow exponentially:
+ * delay, delay × factor, delay × factor², … capped at maxDelay.
+ */
+
+// --- Types ---
+export type RetryableStatus = "error" | "timeout";
+
+export interface RetryConfig {
+  attempts?: number; // total attempts including the first (default 1 — no retries)
+  delay?: number; // seconds before the first retry (default 60)
+  factor?: number; // backoff multiplier (default 2)
+  maxDelay?: number; // cap on a single delay in seconds (default 3600)
+  on?: RetryableStatus[]; // which outcomes to retry (default both)
+}
+
+export type RetryPolicy = Required<RetryConfig>;
+
+const DEFAULTS: RetryPolicy = {
+  attempts: 1,
+  delay: 60,
+  factor: 2,
+  maxDelay: 3600,
+  on: ["error", "timeout"],
+};
+
+export function resolveRetry(agentRetry?: RetryConfig, jobRetry?: RetryConfig): RetryPolicy {
+  return { ...DEFAULTS, ...agentRetry, ...jobRetry };
+}
+
+/** Whether a run that ended with `status` on `attempt` gets another try. */
+export function shouldRetry(policy: RetryPolicy, status: string, attempt: number): boolean {
+  return attempt < policy.attempts && (policy.on as string[]).includes(status);
+}
+
+/** Seconds to wait before the attempt after `attempt`. */
+export function retryDelay(policy: RetryPolicy, attempt: number): number {
+  return Math.min(policy.delay * policy.factor ** (attempt - 1), policy.maxDelay);
+}
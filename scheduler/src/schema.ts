@@ -0,0 +1,261 @@
+/**
+ * Tiny schema checker for config.json — no dependencies.
+ *
+ * `parseJson` is a small JSON parser that also records the line every
+ * value (and object key) starts on, so `checkSchema` can point at the
+ * exact line of a typo instead of "something in agents is wrong".
+ */
+
+// --- Types ---
+export interface Issue {
+  path: string; // e.g. agents[0].jobs[1].mode
+  line?: number;
+  message: string;
+}
+
+export type Schema =
+  | { kind: "string"; enum?: readonly string[]; check?: (v: string) => string | undefined }
+  | { kind: "number"; min?: number; integer?: boolean }
+  | { kind: "boolean" }
+  | { kind: "array"; items: Schema }
+  | { kind: "object"; fields: Record<string, Schema>; required?: string[] }
+  | { kind: "oneOf"; options: Schema[]; describe: string };
+
+export interface ParsedJson {
+  value?: unknown;
+  lines: Map<string, number>; // path → line (1-based)
+  error?: Issue;
+}
+
+// --- Parser ---
+
+/** Parse JSON, recording the line of each value. Never throws. */
+export function parseJson(text: string): ParsedJson {
+  const lines = new Map<string, number>();
+  let i = 0;
+  let line = 1;
+
+  const fail = (message: string): never => {
+    const col = i - text.lastIndexOf("\n", i - 1);
+    throw Object.assign(new Error(`${message} (column ${col})`), { line });
+  };
+
+  const skipSpace = () => {
+    while (i < text.length && /\s/.test(text[i])) {
+      if (text[i] === "\n") line++;
+      i++;
+    }
+  };
+
+  const parseString = (): string => {
+    const start = i;
+    i++; // opening quote
+    while (i < text.length && text[i] !== '"') {
+      if (text[i] === "\n") fail("Unterminated string");
+      i += text[i] === "\\" ? 2 : 1;
+    }
+    if (i >= text.length) fail("Unterminated string");
+    i++;
+    return JSON.parse(text.slice(start, i));
+  };
+
+  const parseValue = (path: string): unknown => {
+    skipSpace();
+    if (!lines.has(path)) lines.set(path, line);
+    const c = text[i];
+
+    if (c === "{") {
+      i++;
+      const obj: Record<string, unknown> = {};
+      skipSpace();
+      if (text[i] === "}") {
+        i++;
+        return obj;
+      }
+      while (true) {
+        skipSpace();
+        if (text[i] !== '"') fail(`Expected a property name in quotes`);
+        const keyLine = line;
+        const key = parseString();
+        const childPath = path ? `${path}.${key}` : key;
+        lines.set(childPath, keyLine);
+        skipSpace();
+        if (text[i] !== ":") fail(`Expected ":" after "${key}"`);
+        i++;
+        obj[key] = parseValue(childPath);
+        skipSpace();
+        if (text[i] === ",") {
+          i++;
+          continue;
+        }
+        if (text[i] === "}") {
+          i++;
+          return obj;
+        }
+        fail(`Expected "," or "}"`);
+      }
+    }
+
+    if (c === "[") {
+      i++;
+      const arr: unknown[] = [];
+      skipSpace();
+      if (text[i] === "]") {
+        i++;
+        return arr;
+      }
+      while (true) {
+        arr.push(parseValue(`${path}[${arr.length}]`));
+        skipSpace();
+        if (text[i] === ",") {
+          i++;
+          continue;
+        }
+        if (text[i] === "]") {
+          i++;
+          return arr;
+        }
+        fail(`Expected "," or "]"`);
+      }
+    }
+
+    if (c === '"') return parseString();
+
+    const literal = text.slice(i).match(/^(true|false|null|-?\d+(\.\d+)?([eE][+-]?\d+)?)/);
+    if (!literal) fail(i >= text.length ? "Unexpected end of file" : `Unexpected "${c}"`);
+    i += literal![0].length;
+    return JSON.parse(literal![0]);
+  };
+
+  try {
+    const value = parseValue("");
+    skipSpace();
+    if (i < text.length) fail(`Unexpected "${text[i]}" after the end of the config`);
+    return { value, lines };
+  } catch (err: any) {
+    return { lines, error: { path: "", line: err.line, message: err.message } };
+  }
+}
+
+// --- Checker ---
+function typeOf(v: unknown): string {
+  if (v === null) return "null";
+  if (Array.isArray(v)) return "array";
+  return typeof v;
+}
+
+function levenshtein(a: string, b: string): number {
+  const d = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) d[0][j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      d[i][j] = Math.min(
+        d[i - 1][j] + 1,
+        d[i][j - 1] + 1,
+        d[i - 1][j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+  }
+  return d[a.length][b.length];
+}
+
+/** The candidate closest to `word`, if it's a plausible typo of it. */
+export function suggest(word: string, candidates: readonly string[]): string | undefined {
+  let best: string | undefined;
+  let bestDistance = Infinity;
+  for (const c of candidates) {
+    const distance = levenshtein(word.toLowerCase(), c.toLowerCase());
+    if (distance < bestDistance) {
+      best = c;
+      bestDistance = distance;
+    }
+  }
+  return bestDistance <= Math.max(2, Math.floor(word.length / 3)) ? best : undefined;
+}
+
+/**
+ * Check `value` against `schema`. Type errors go to `errors`; unknown
+ * object keys (likely typos) go to `warnings`.
+ */
+export function checkSchema(
+  value: unknown,
+  schema: Schema,
+  path: string,
+  lines: Map<string, number>,
+  errors: Issue[],
+  warnings: Issue[]
+) {
+  const error = (message: string, at = path) =>
+    errors.push({ path: at, line: lines.get(at), message });
+  const type = typeOf(value);
+
+  switch (schema.kind) {
+    case "string": {
+      if (type !== "string") return error(`must be a string (got ${type})`);
+      const v = value as string;
+      if (schema.enum && !schema.enum.includes(v)) {
+        const hint = suggest(v, schema.enum);
+        return error(
+          `must be one of ${schema.enum.map((e) => `"${e}"`).join(", ")} (got "${v}")` +
+            (hint ? ` — did you mean "${hint}"?` : "")
+        );
+      }
+      const problem = schema.check?.(v);
+      if (problem) error(problem);
+      return;
+    }
+
+    case "number": {
+      if (type !== "number") return error(`must be a number (got ${type})`);
+      const v = value as number;
+      if (schema.integer && !Number.isInteger(v)) return error(`must be a whole number (got ${v})`);
+      if (schema.min !== undefined && v < schema.min) error(`must be at least ${schema.min} (got ${v})`);
+      return;
+    }
+
+    case "boolean":
+      if (type !== "boolean") error(`must be true or false (got ${type})`);
+      return;
+
+    case "array":
+      if (type !== "array") return error(`must be an array (got ${type})`);
+      (value as unknown[]).forEach((item, i) =>
+        checkSchema(item, schema.items, `${path}[${i}]`, lines, errors, warnings)
+      );
+      return;
+
+    case "object": {
+      if (type !== "object") return error(`must be an object (got ${type})`);
+      const obj = value as Record<string, unknown>;
+      const known = Object.keys(schema.fields);
+      for (const key of schema.required || []) {
+        if (obj[key] === undefined) error(`"${key}" is required`);
+      }
+      for (const [key, v] of Object.entries(obj)) {
+        const childPath = path ? `${path}.${key}` : key;
+        const fieldSchema = schema.fields[key];
+        if (!fieldSchema) {
+          const hint = suggest(key, known);
+          warnings.push({
+            path: childPath,
+            line: lines.get(childPath),
+            message: `unknown key "${key}" is ignored` + (hint ? ` — did you mean "${hint}"?` : ""),
+          });
+          continue;
+        }
+        checkSchema(v, fieldSchema, childPath, lines, errors, warnings);
+      }
+      return;
+    }
+
+    case "oneOf": {
+      // Validate against the one option of matching type, for precise messages
+      const candidates = schema.options.filter((o) => o.kind === type);
+      if (candidates.length === 1) {
+        return checkSchema(value, candidates[0], path, lines, errors, warnings);
+      }
+      error(`must be ${schema.describe} (got ${type})`);
+      return;
+    }
+  }
+}
@@ -0,0 +1,20 @@
+#!/usr/bin/env bun
+/**
+ * List, reset and fork the agents' named sessions.
+ * Usage: bun run sessions [agent]                       (list)
+ *    or: bun run sessions reset <agent>/<session>
+ *    or: bun run sessions fork <agent>/<session> <new-name>
+ */
+
+import { runSessionCommand } from "./sessions.ts";
+
+const [first, ...rest] = process.argv.slice(2);
+const output =
+  first === "reset" || first === "fork"
+    ? runSessionCommand(first, rest)
+    : runSessionCommand("sessions", first ? [first] : []);
+
+console.log(output);
+if (output.startsWith("❌") || output.startsWith("Usage") || output.startsWith("No session ")) {
+  process.exitCode = 1;
+}
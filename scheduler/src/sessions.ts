@@ -0,0 +1,182 @@
+/**
+ * Session registry — which claude session each conversation resumes.
+ *
+ * Sessions are named per agent: a `continue` job resumes its own session
+ * (the job's name, or its `session` setting so jobs can share one), chat
+ * messages go to "chat", and a chat reply to a job's message continues that
+ * job's session. Runs resume by explicit id (`--resume`), never `--continue`,
+ * so a chat question can't land in whatever session happened to be last.
+ *
+ * The registry lives in .sessions.json and is re-read on every access, so
+ * `bun run sessions` can reset or fork sessions while the daemon runs.
+ */
+
+import { readFileSync, writeFileSync } from "fs";
+import { join, resolve } from "path";
+
+// --- Types ---
+export interface SessionEntry {
+  id?: string; // unset until the first run (or after a fork, until it runs)
+  forkFrom?: string; // session id to branch from on the next run
+  createdAt: string;
+  updatedAt: string;
+  runs: number;
+}
+
+type Registry = Record<string, Record<string, SessionEntry>>; // agent → name →
+
+export const CHAT_SESSION = "chat";
+
+const SESSION_NAME_RE = /^[\w.-]+$/;
+
+// --- Paths ---
+const ROOT = resolve(import.meta.dir, "..");
+export const SESSIONS_FILE = join(ROOT, ".sessions.json");
+
+function load(): Registry {
+  try {
+    return JSON.parse(readFileSync(SESSIONS_FILE, "utf-8"));
+  } catch {
+    return {};
+  }
+}
+
+function save(registry: Registry) {
+  writeFileSync(SESSIONS_FILE, JSON.stringify(registry, null, 2));
+}
+
+// --- Lookup ---
+
+/** The session a job belongs to. */
+export function jobSession(job: { name: string; session?: string }): string {
+  return job.session || job.name;
+}
+
+/**
+ * claude arguments that resume `agent`'s session `name` — empty when it
+ * has never run (or was reset), so the run starts a new session.
+ */
+export function resumeArgs(agent: string, name: string): string[] {
+  const entry = load()[agent]?.[name];
+  if (entry?.forkFrom) return ["--resume", entry.forkFrom, "--fork-session"];
+  if (entry?.id) return ["--resume", entry.id];
+  return [];
+}
+
+/** Remember the session id a run of `agent`'s session `name` ended up in. */
+export function recordSession(agent: string, name: string, id: string) {
+  const registry = load();
+  const sessions = (registry[agent] ||= {});
+  const now = new Date().toISOString();
+  const entry = sessions[name] || { createdAt: now, updatedAt: now, runs: 0 };
+  sessions[name] = { ...entry, id, forkFrom: undefined, updatedAt: now, runs: entry.runs + 1 };
+  save(registry);
+}
+
+export function listSessions(agent?: string): Array<{ agent: string; name: string; entry: SessionEntry }> {
+  const registry = load();
+  return Object.entries(registry)
+    .filter(([a]) => !agent || a === agent)
+    .flatMap(([a, sessions]) =>
+      Object.entries(sessions).map(([name, entry]) => ({ agent: a, name, entry }))
+    );
+}
+
+// --- Changes ---
+
+/** Forget a session — its next run starts a new conversation. */
+export function resetSession(agent: string, name: string): boolean {
+  const registry = load();
+  if (!registry[agent]?.[name]) return false;
+  delete registry[agent][name];
+  save(registry);
+  return true;
+}
+
+/**
+ * Branch `from` into a new session `to`: its next run resumes a copy of
+ * `from`'s conversation, leaving the original untouched.
+ */
+export function forkSession(agent: string, from: string, to: string): string | undefined {
+  if (!SESSION_NAME_RE.test(to)) return `"${to}" isn't a valid session name`;
+  const registry = load();
+  const source = registry[agent]?.[from];
+  if (!source?.id) return `${agent}/${from} has no session to fork yet`;
+
+  const now = new Date().toISOString();
+  registry[agent][to] = { forkFrom: source.id, createdAt: now, updatedAt: now, runs: 0 };
+  save(registry);
+  return undefined;
+}
+
+// --- Commands (shared by chat and the CLI) ---
+export const SESSION_COMMAND_HELP = [
+  "/sessions [agent] — list sessions",
+  "/reset agent/session — start that session over",
+  "/fork agent/session new-name — branch a session",
+].join("\n");
+
+function describeEntry(agent: string, name: string, entry: SessionEntry): string {
+  const id = entry.id
+    ? entry.id
+    : entry.forkFrom
+      ? `fork of ${entry.forkFrom} (starts on next run)`
+      : "not started";
+  const when = new Date(entry.updatedAt).toLocaleString();
+  return `${agent}/${name} — ${id} · ${entry.runs} run(s) · ${when}`;
+}
+
+/** Split "agent/session" — a bare name refers to `defaultAgent`'s session. */
+function parseRef(ref: string | undefined, defaultAgent?: string) {
+  if (!ref) return undefined;
+  if (ref.includes("/")) {
+    const [agent, name] = ref.split("/", 2);
+    return agent && name ? { agent, name } : undefined;
+  }
+  return defaultAgent ? { agent: defaultAgent, name: ref } : undefined;
+}
+
+/**
+ * Run `sessions`, `reset` or `fork` with its arguments and describe the
+ * outcome. `defaultAgent` lets an agent's Discord channel drop the prefix.
+ */
+export function runSessionCommand(command: string, args: string[], defaultAgent?: string): string {
+  const refHelp = defaultAgent ? "session or agent/session" : "agent/session";
+
+  switch (command) {
+    case "sessions": {
+      const sessions = listSessions(args[0] || defaultAgent);
+      if (sessions.length === 0) return "No sessions yet.";
+      return sessions.map((s) => describeEntry(s.agent, s.name, s.entry)).join("\n");
+    }
+
+    case "reset": {
+      const ref = parseRef(args[0] || (defaultAgent ? CHAT_SESSION : undefined), defaultAgent);
+      if (!ref) return `Usage: reset <${refHelp}>`;
+      return resetSession(ref.agent, ref.name)
+        ? `🧹 ${ref.agent}/${ref.name} reset — its next run starts a new conversation`
+        : `No session ${ref.agent}/${ref.name}`;
+    }
+
+    case "fork": {
+      const ref = parseRef(args[0], defaultAgent);
+      if (!ref || !args[1]) return `Usage: fork <${refHelp}> <new-name>`;
+      const error = forkSession(ref.agent, ref.name, args[1]);
+      return error
+        ? `❌ ${error}`
+        : `🌱 ${ref.agent}/${args[1]} forked from ${ref.agent}/${ref.name} — ` +
+            `message it with @${ref.agent}#${args[1]}`;
+    }
+
+    default:
+      return SESSION_COMMAND_HELP;
+  }
+}
+
+/** If `text` is a session command ("/sessions", "/reset …", "/fork …"), run it. */
+export function handleSessionCommand(text: string, defaultAgent?: string): string | undefined {
+  const match = text.trim().match(/^\/(sessions|reset|fork)(?:@\w+)?(?:\s+(.*))?$/s);
+  if (!match) return undefined;
+  const args = (match[2] || "").split(/\s+/).filter(Boolean);
+  return runSessionCommand(match[1], args, defaultAgent);
+}
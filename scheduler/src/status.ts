@@ -1,27 +1,103 @@
 #!/usr/bin/env bun
 /**
- * Show multi-agent scheduler status.
+ * Show multi-agent scheduler status — live state (queue, pauses, next runs)
+ * from the daemon's control socket, history from the run store.
+ *
+ * `bun run status --check` prints only problems (scheduler down or wedged,
+ * jobs past `expectSuccessWithin`) and exits 1 if there are any — for a
+ * cron job or monitor outside the daemon.
  */
 
-import { readFileSync, existsSync } from "fs";
 import { execSync } from "child_process";
-import { join } from "path";
+import { loadConfig } from "./config.ts";
+import { sendControl } from "./control.ts";
+import { formatCost, formatTokens } from "./result.ts";
+import { jobSession } from "./sessions.ts";
+import { jobSummary, statusEmoji } from "./store.ts";
+import { pausedTargets } from "./pauses.ts";
+import type { QueueSnapshot } from "./queue.ts";
+import { activeMaintenance, quietUntil, describeWindow } from "./windows.ts";
+import {
+  overdueJobs,
+  describeOverdue,
+  formatSpan,
+  readHeartbeat,
+  heartbeatAge,
+  HEARTBEAT_STALE_MS,
+} from "./watchdog.ts";
 
-const ROOT = import.meta.dir.replace("/src", "");
-const CONFIG_PATH = join(ROOT, "config.json");
-const STATE_FILE = join(ROOT, ".state.json");
+// A live daemon answers at once; longer means its event loop is stuck
+const CONTROL_TIMEOUT_MS = 5000;
 
-if (!existsSync(CONFIG_PATH)) {
-  console.error("❌ No config.json found.");
-  process.exit(1);
+const check = process.argv.includes("--check");
+const config = loadConfig();
+
+// Live state — undefined when the daemon isn't running or doesn't answer
+let daemon:
+  | {
+      pid: number;
+      startedAt: string;
+      shuttingDown: boolean;
+      paused: string[];
+      deferred: Record<string, string>;
+      held: number;
+      queue: QueueSnapshot;
+      nextRuns: Record<string, string>;
+    }
+  | undefined;
+let unreachable: string | undefined;
+try {
+  daemon = (await sendControl({ command: "status", args: [] }, undefined, CONTROL_TIMEOUT_MS))?.data;
+} catch (err: any) {
+  unreachable = err.message;
 }
+// Pauses persist, so they're known even while the daemon is down
+const paused = new Set(daemon?.paused ?? pausedTargets());
+const isPaused = (agent: string, job: string) =>
+  paused.has("*") || paused.has(agent) || paused.has(`${agent}/${job}`);
 
-const config = JSON.parse(readFileSync(CONFIG_PATH, "utf-8"));
+// The daemon removes .heartbeat on a clean shutdown, so one left behind
+// means it was killed or crashed
+const beat = readHeartbeat();
+const beatAge = heartbeatAge(beat);
+const lastBeat = beat ? `last heartbeat ${formatSpan(beatAge! / 1000)} ago, pid ${beat.pid}` : "no heartbeat";
 
-let state: Record<string, any> = {};
-try {
-  state = JSON.parse(readFileSync(STATE_FILE, "utf-8"));
-} catch {}
+let daemonLine: string;
+let daemonProblem: string | undefined;
+if (daemon?.shuttingDown) {
+  daemonLine = `🟡 Shutting down (pid ${daemon.pid}) — waiting for running jobs`;
+  daemonProblem = `🟡 Scheduler is shutting down (pid ${daemon.pid})`;
+} else if (daemon) {
+  daemonLine = `🟢 Running (pid ${daemon.pid}, since ${new Date(daemon.startedAt).toLocaleString()})`;
+  if (beatAge !== undefined && beatAge > HEARTBEAT_STALE_MS) {
+    daemonLine += ` ⚠️  ${lastBeat}`;
+  }
+} else if (unreachable) {
+  daemonLine = `🟠 Not responding (${unreachable}; ${lastBeat})`;
+  daemonProblem = `🟠 Scheduler not responding: ${unreachable} (${lastBeat})`;
+} else if (beat) {
+  daemonLine = `🔴 Died (${lastBeat})`;
+  daemonProblem = `🔴 Scheduler died (${lastBeat})`;
+} else {
+  daemonLine = "🔴 Stopped";
+  daemonProblem = "🔴 Scheduler is not running";
+}
+
+// Jobs that have never succeeded count from when the daemon started
+const since = daemon ? new Date(daemon.startedAt) : beat ? new Date(beat.startedAt) : new Date();
+const overdue = new Map(
+  overdueJobs(config.agents, since, new Date(), isPaused).map((o) => [`${o.agent}/${o.job}`, o])
+);
+
+if (check) {
+  const problems = [...(daemonProblem ? [daemonProblem] : []), ...[...overdue.values()].map(describeOverdue)];
+  if (problems.length) {
+    for (const problem of problems) console.log(problem);
+    process.exit(1);
+  }
+  console.log(`✅ Scheduler running (pid ${daemon!.pid}), no jobs overdue`);
+  process.exit(0);
+}
 
 console.log(`
 ╔══════════════════════════════════════════╗
@@ -29,38 +105,114 @@ console.log(`
 ╚══════════════════════════════════════════╝
 `);
 
-let tmuxRunning = false;
-try {
-  execSync(`tmux has-session -t ocalt 2>/dev/null`);
-  tmuxRunning = true;
-} catch {}
-
-console.log(`Daemon:   ${tmuxRunning ? "🟢 Running" : "🔴 Stopped"}`);
+console.log(`Daemon:   ${daemonLine}`);
+if (paused.has("*")) console.log(`Paused:   ⏸️  all jobs (bun run resume)`);
+if (config.quietHours) {
+  const until = quietUntil(config.quietHours);
+  const held = daemon?.held ? ` · ${daemon.held} notification(s) held` : "";
+  console.log(
+    `Quiet:    ${
+      until
+        ? `🌙 until ${until.toLocaleTimeString()}${held}`
+        : `${describeWindow(config.quietHours, "quiet hours")}${held}`
+    }`
+  );
+}
 console.log(`Telegram: ${config.telegram?.botToken ? "🟢 Configured" : "⚪ Not set"}\n`);
 
 for (const agent of config.agents) {
-  console.log(`🤖 ${agent.name} — ${agent.description || ""}`);
-  console.log(`   Workdir: ${agent.workdir}\n`);
+  console.log(`🤖 ${agent.name} — ${agent.description || ""}${paused.has(agent.name) ? " ⏸️  paused" : ""}`);
+  console.log(`   Workdir: ${agent.workdir}`);
+  const q = daemon?.queue[agent.name];
+  if (q?.running) {
+    const since = new Date(q.running.startedAt).toLocaleTimeString();
+    console.log(
+      `   Queue:   ▶️  ${q.running.label} (${q.running.source}, since ${since}) · ${q.waiting.length} waiting`
+    );
+    for (const w of q.waiting) {
+      console.log(`            ⏳ ${w.label} (${w.source})`);
+    }
+  } else {
+    console.log(`   Queue:   idle`);
+  }
+  console.log();
 
   for (const job of agent.jobs) {
-    const stateKey = `${agent.name}/${job.name}`;
-    const s = state[stateKey];
-    const emoji =
-      s?.lastStatus === "ok" ? "✅" :
-      s?.lastStatus === "error" ? "❌" :
-      s?.lastStatus === "timeout" ? "⏰" :
-      s?.lastStatus === "suppressed" ? "⏭️" : "⚪";
+    const { last, running, attempts, runCount, totalCostUsd } = jobSummary(agent.name, job.name);
+    const emoji = statusEmoji(last?.status);
 
-    console.log(`   ${emoji} ${job.name} [${job.mode}]`);
-    console.log(`      Schedule:  ${job.schedule}`);
-    console.log(`      Last run:  ${s?.lastRun ? new Date(s.lastRun).toLocaleString() : "never"}`);
-    console.log(`      Duration:  ${s?.lastDuration ? s.lastDuration.toFixed(1) + "s" : "-"}`);
-    console.log(`      Runs:      ${s?.runCount || 0}`);
+    const key = `${agent.name}/${job.name}`;
+    console.log(`   ${emoji} ${job.name} [${job.mode}]${paused.has(key) ? " ⏸️  paused" : ""}`);
+    console.log(`      Schedule:  ${job.schedule || "-"}`);
+    if (daemon?.nextRuns[key]) {
+      console.log(`      Next run:  ${new Date(daemon.nextRuns[key]).toLocaleString()}`);
+    }
+    const maintenance = activeMaintenance(config.maintenance, agent.name, job.name);
+    if (maintenance) {
+      const action = maintenance.window.action === "defer" ? "deferred" : "skipped";
+      console.log(
+        `      Window:    🚧 ${describeWindow(maintenance.window)} until ` +
+          `${maintenance.until.toLocaleTimeString()} — scheduled runs ${action}`
+      );
+    }
+    if (daemon?.deferred[key]) {
+      console.log(`      Deferred:  🚧 one run at ${new Date(daemon.deferred[key]).toLocaleString()}`);
+    }
+    if (job.after) {
+      const after = (Array.isArray(job.after) ? job.after : [job.after])
+        .map((d) => (typeof d === "string" ? d : `${d.job} (${d.on || "success"})`));
+      console.log(`      After:     ${after.join(", ")}`);
+    }
+    if (running) {
+      console.log(`      Running:   since ${new Date(running.started_at).toLocaleString()} (${running.source})`);
+    }
+    console.log(`      Last run:  ${last?.finished_at ? new Date(last.finished_at).toLocaleString() : "never"}`);
+    console.log(`      Duration:  ${last?.duration ? last.duration.toFixed(1) + "s" : "-"}`);
+    if (job.expectSuccessWithin) {
+      const o = overdue.get(key);
+      console.log(
+        `      Deadline:  ${
+          o
+            ? `⏰ overdue by ${formatSpan(o.overdueFor)} (expected within ${formatSpan(o.window)})`
+            : `success expected within ${formatSpan(job.expectSuccessWithin)}`
+        }`
+      );
+    }
+    console.log(`      Runs:      ${runCount}`);
+    if (last?.cost_usd != null) {
+      console.log(
+        `      Cost:      ${formatCost(last.cost_usd)} last · ${formatCost(totalCostUsd)} total`
+      );
+    }
+    if (last?.input_tokens != null) {
+      const input = last.input_tokens + (last.cache_read_tokens ?? 0) + (last.cache_write_tokens ?? 0);
+      console.log(
+        `      Tokens:    ${formatTokens(input)} in / ${formatTokens(last.output_tokens ?? 0)} out` +
+          (last.turns != null ? ` · ${last.turns} turns` : "")
+      );
+    }
+    if (last?.session_id) {
+      console.log(`      Session:   ${jobSession(job)} (${last.session_id})`);
+    }
+    if (attempts.length > 1) {
+      const tries = attempts.map((a) => `${statusEmoji(a.status)} ${a.status}`);
+      console.log(`      Attempts:  ${tries.join(" → ")}`);
+    }
+    if (last?.next_retry_at && !running) {
+      console.log(`      Retry at:  ${new Date(last.next_retry_at).toLocaleString()}`);
+    }
+    if (last?.status === "error") {
+      console.log(`      Exit code: ${last.exit_code ?? "-"}`);
+      if (last.error) {
+        const lines = last.error.trim().split("\n").slice(-3);
+        console.log(`      Error:     ${lines.join("\n                 ")}`);
+      }
+    }
   }
   console.log();
 }
 
-if (tmuxRunning) {
+if (daemon) {
   console.log(`👀 Watch: tmux attach -t ocalt`);
   try {
     const windows = execSync(
@@ -0,0 +1,26 @@
+#!/usr/bin/env bun
+/**
+ * Stop the scheduler — a graceful shutdown through the daemon (running jobs
+ * get `shutdown.drainTimeout` seconds to finish), then the tmux sessions.
+ * Usage: bun run stop [--now]   (--now interrupts running jobs right away)
+ */
+
+import { execSync } from "child_process";
+import { sendControl, printReply } from "./control.ts";
+
+const now = process.argv.includes("--now");
+
+// Replies once, then the connection closes as the daemon exits
+try {
+  const reply = await sendControl({ command: "shutdown", args: now ? ["--now"] : [] }, printReply);
+  if (!reply) console.log("⚪ The scheduler wasn't running");
+} catch (err: any) {
+  console.error(`❌ Couldn't reach the scheduler: ${err.message}`);
+}
+
+for (const session of ["ocalt", "ocalt-daemon"]) {
+  try {
+    execSync(`tmux kill-session -t ${session} 2>/dev/null`);
+  } catch {}
+}
+console.log("Stopped");
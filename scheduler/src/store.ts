@@ -0,0 +1,449 @@
+/**
+ * Run store — one SQLite row per run, via Bun's built-in sqlite.
+ *
+ * Replaces .state.json, which kept only the last run per job and was
+ * rewritten whole by every finishing run (so overlapping runs could lose
+ * each other's updates). A row is inserted as "running" when a run starts
+ * and completed in place when it ends; each write is its own transaction,
+ * and WAL mode lets `status`/`history` read while the daemon writes.
+ *
+ * On first open an existing .state.json is imported and renamed to
+ * .state.json.migrated.
+ */
+
+import { Database } from "bun:sqlite";
+import { existsSync, readFileSync, renameSync } from "fs";
+import { join, resolve } from "path";
+import { parseStreamResult, type RunResult } from "./result.ts";
+
+// --- Types ---
+export type RunStatus =
+  | "running"
+  | "ok"
+  | "error"
+  | "timeout"
+  | "suppressed"
+  | "cancelled"
+  | "interrupted"; // stopped by a scheduler shutdown, or found unfinished at startup
+export type FinishedStatus = Exclude<RunStatus, "running">;
+
+export interface RunRow {
+  id: number;
+  agent: string;
+  job: string; // job name, or "reply #12" / "dispatch from x" for chat runs
+  source: string; // cron, catchup, manual, pipeline, telegram, discord, dispatch, migrated
+  session: string | null;
+  attempt: number;
+  scheduled_for: string | null;
+  started_at: string;
+  finished_at: string | null;
+  status: RunStatus;
+  exit_code: number | null;
+  stopped_by: string | null;
+  duration: number | null;
+  output_excerpt: string | null;
+  error: string | null;
+  log_path: string | null;
+  next_retry_at: string | null;
+  session_id: string | null;
+  cost_usd: number | null;
+  input_tokens: number | null;
+  output_tokens: number | null;
+  cache_read_tokens: number | null;
+  cache_write_tokens: number | null;
+  turns: number | null;
+}
+
+export interface NewRun {
+  agent: string;
+  job: string;
+  source: string;
+  session?: string;
+  attempt?: number;
+  scheduledFor?: Date;
+  logPath?: string;
+}
+
+export interface RunOutcome {
+  status: FinishedStatus;
+  duration: number;
+  exitCode?: number;
+  stoppedBy?: string;
+  output?: string;
+  error?: string;
+  result?: RunResult;
+}
+
+export interface RunFilter {
+  agent?: string;
+  job?: string;
+  status?: string;
+  source?: string;
+  since?: string; // ISO date/time, inclusive
+  until?: string; // ISO date/time, exclusive
+  limit?: number;
+}
+
+// Sources of scheduled job runs (as opposed to chat replies and dispatches)
+export const JOB_SOURCES = ["cron", "catchup", "manual", "pipeline", "migrated"];
+
+const EXCERPT_CHARS = 2000;
+
+// --- Paths ---
+const ROOT = resolve(import.meta.dir, "..");
+export const DB_FILE = join(ROOT, "ocalt.db");
+const LEGACY_STATE_FILE = join(ROOT, ".state.json");
+
+// --- Schema ---
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS runs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    agent TEXT NOT NULL,
+    job TEXT NOT NULL,
+    source TEXT NOT NULL,
+    session TEXT,
+    attempt INTEGER NOT NULL DEFAULT 1,
+    scheduled_for TEXT,
+    started_at TEXT NOT NULL,
+    finished_at TEXT,
+    status TEXT NOT NULL,
+    exit_code INTEGER,
+    stopped_by TEXT,
+    duration REAL,
+    output_excerpt TEXT,
+    error TEXT,
+    log_path TEXT,
+    next_retry_at TEXT,
+    session_id TEXT,
+    cost_usd REAL,
+    input_tokens INTEGER,
+    output_tokens INTEGER,
+    cache_read_tokens INTEGER,
+    cache_write_tokens INTEGER,
+    turns INTEGER
+  );
+  CREATE INDEX IF NOT EXISTS runs_by_job ON runs (agent, job, id);
+  CREATE INDEX IF NOT EXISTS runs_by_start ON runs (started_at);
+`;
+
+let db: Database | undefined;
+
+/** The store, opened (and migrated) on first use. */
+function store(): Database {
+  if (db) return db;
+  db = new Database(DB_FILE, { create: true });
+  db.exec("PRAGMA journal_mode = WAL");
+  db.exec("PRAGMA busy_timeout = 5000");
+  db.exec(SCHEMA);
+  migrateStateFile(db);
+  return db;
+}
+
+function excerpt(text?: string): string | null {
+  if (!text) return null;
+  return text.length > EXCERPT_CHARS ? `…${text.slice(-EXCERPT_CHARS)}` : text;
+}
+
+// --- Migration ---
+
+/** Import .state.json's last runs (and their retry attempts) once. */
+function migrateStateFile(db: Database) {
+  if (!existsSync(LEGACY_STATE_FILE)) return;
+
+  let state: Record<string, any>;
+  try {
+    state = JSON.parse(readFileSync(LEGACY_STATE_FILE, "utf-8"));
+  } catch {
+    return;
+  }
+
+  const insert = db.prepare(`
+    INSERT INTO runs (agent, job, source, attempt, started_at, finished_at, status,
+                      exit_code, stopped_by, duration, error, session_id, cost_usd)
+    VALUES (?, ?, 'migrated', ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  let imported = 0;
+  db.transaction(() => {
+    for (const [key, s] of Object.entries(state)) {
+      const [agent, job] = key.split("/");
+      if (!agent || !job || !s?.lastRun) continue;
+
+      const attempts: any[] = s.attempts?.length
+        ? s.attempts
+        : [{ attempt: 1, status: s.lastStatus, finishedAt: s.lastRun, duration: s.lastDuration }];
+      attempts.forEach((a, i) => {
+        const last = i === attempts.length - 1;
+        const finishedAt = a.finishedAt || s.lastRun;
+        const startedAt = new Date(
+          new Date(finishedAt).getTime() - (a.duration || 0) * 1000
+        ).toISOString();
+        insert.run(
+          agent,
+          job,
+          a.attempt ?? i + 1,
+          startedAt,
+          finishedAt,
+          a.status || s.lastStatus || "ok",
+          a.exitCode ?? (last ? s.lastExitCode : null) ?? null,
+          last ? s.lastStoppedBy ?? null : null,
+          a.duration ?? null,
+          last ? s.lastError ?? null : null,
+          a.sessionId ?? (last ? s.lastSessionId : null) ?? null,
+          a.costUsd ?? (last ? s.lastCostUsd : null) ?? null
+        );
+        imported++;
+      });
+    }
+  })();
+
+  renameSync(LEGACY_STATE_FILE, `${LEGACY_STATE_FILE}.migrated`);
+  console.log(`📦 Migrated ${imported} run(s) from .state.json into ${DB_FILE}`);
+}
+
+// --- Writes ---
+
+/** Record a run as started. Returns its id for `finishRun`. */
+export function startRun(run: NewRun): number {
+  const row = store()
+    .prepare(
+      `INSERT INTO runs (agent, job, source, session, attempt, scheduled_for, started_at, status, log_path)
+       VALUES (?, ?, ?, ?, ?, ?, ?, 'running', ?) RETURNING id`
+    )
+    .get(
+      run.agent,
+      run.job,
+      run.source,
+      run.session ?? null,
+      run.attempt ?? 1,
+      run.scheduledFor?.toISOString() ?? null,
+      new Date().toISOString(),
+      run.logPath ?? null
+    ) as { id: number };
+  return row.id;
+}
+
+export function finishRun(id: number, outcome: RunOutcome) {
+  const { result } = outcome;
+  store()
+    .prepare(
+      `UPDATE runs SET
+         finished_at = ?, status = ?, duration = ?, exit_code = ?, stopped_by = ?,
+         output_excerpt = ?, error = ?, session_id = ?, cost_usd = ?, input_tokens = ?,
+         output_tokens = ?, cache_read_tokens = ?, cache_write_tokens = ?, turns = ?
+       WHERE id = ?`
+    )
+    .run(
+      new Date().toISOString(),
+      outcome.status,
+      outcome.duration,
+      outcome.exitCode ?? null,
+      outcome.stoppedBy ?? null,
+      excerpt(outcome.output),
+      outcome.error ?? null,
+      result?.sessionId ?? null,
+      result?.costUsd ?? null,
+      result?.usage?.input ?? null,
+      result?.usage?.output ?? null,
+      result?.usage?.cacheRead ?? null,
+      result?.usage?.cacheWrite ?? null,
+      result?.turns ?? null,
+      id
+    );
+}
+
+export function setNextRetry(id: number, at: Date | null) {
+  store()
+    .prepare(`UPDATE runs SET next_retry_at = ? WHERE id = ?`)
+    .run(at?.toISOString() ?? null, id);
+}
+
+// --- Reads ---
+export interface JobSummary {
+  last?: RunRow; // latest finished run
+  running?: RunRow;
+  recent: RunRow[]; // latest 20 runs, newest first
+  attempts: RunRow[]; // attempts of the latest run, oldest first
+  runCount: number;
+  totalCostUsd: number;
+}
+
+const sourceList = JOB_SOURCES.map((s) => `'${s}'`).join(", ");
+
+export function jobSummary(agent: string, job: string): JobSummary {
+  const db = store();
+  const recent = db
+    .prepare(
+      `SELECT * FROM runs WHERE agent = ? AND job = ? AND source IN (${sourceList})
+       ORDER BY id DESC LIMIT 20`
+    )
+    .all(agent, job) as RunRow[];
+  const totals = db
+    .prepare(
+      `SELECT COUNT(*) AS runs, COALESCE(SUM(cost_usd), 0) AS cost FROM runs
+       WHERE agent = ? AND job = ? AND source IN (${sourceList}) AND status != 'running'`
+    )
+    .get(agent, job) as { runs: number; cost: number };
+
+  const finished = recent.filter((r) => r.status !== "running");
+  const attempts: RunRow[] = [];
+  for (const row of finished) {
+    attempts.unshift(row);
+    if (row.attempt <= 1) break;
+  }
+
+  return {
+    last: finished[0],
+    running: recent.find((r) => r.status === "running"),
+    recent,
+    attempts,
+    runCount: totals.runs,
+    totalCostUsd: totals.cost,
+  };
+}
+
+/**
+ * When `agent/job` last finished a scheduled run, for catch-up. Interrupted
+ * runs don't count — their firing is caught up like one that was missed.
+ */
+export function lastFinished(agent: string, job: string): Date | undefined {
+  const row = store()
+    .prepare(
+      `SELECT finished_at FROM runs WHERE agent = ? AND job = ? AND source IN (${sourceList})
+       AND finished_at IS NOT NULL AND status != 'interrupted' ORDER BY finished_at DESC LIMIT 1`
+    )
+    .get(agent, job) as { finished_at: string } | null;
+  return row ? new Date(row.finished_at) : undefined;
+}
+
+/** When `agent/job` last finished ok (or suppressed — it ran fine). */
+export function lastSuccess(agent: string, job: string): Date | undefined {
+  const row = store()
+    .prepare(
+      `SELECT MAX(finished_at) AS finished_at FROM runs WHERE agent = ? AND job = ?
+       AND source IN (${sourceList}) AND status IN ('ok', 'suppressed')`
+    )
+    .get(agent, job) as { finished_at: string | null };
+  return row.finished_at ? new Date(row.finished_at) : undefined;
+}
+
+/**
+ * A finished run's whole answer — from its stream-json log while that's
+ * still around, otherwise the excerpt kept here.
+ */
+export function runOutput(run: RunRow): string {
+  if (run.log_path) {
+    try {
+      const result = parseStreamResult(readFileSync(run.log_path.replace(/\.log$/, ".jsonl"), "utf-8"));
+      if (result) return result.text;
+    } catch {}
+  }
+  return run.output_excerpt ?? "";
+}
+
+/** Runs still marked running — at daemon startup, the ones the last daemon left behind. */
+export function unfinishedRuns(): RunRow[] {
+  return store().prepare(`SELECT * FROM runs WHERE status = 'running' ORDER BY id`).all() as RunRow[];
+}
+
+export function getRun(id: number): RunRow | undefined {
+  return (store().prepare(`SELECT * FROM runs WHERE id = ?`).get(id) as RunRow | null) ?? undefined;
+}
+
+/** Runs matching `filter`, newest first. */
+export function queryRuns(filter: RunFilter = {}): RunRow[] {
+  const where: string[] = [];
+  const params: Array<string | number> = [];
+  const add = (clause: string, value: string | number | undefined) => {
+    if (value === undefined) return;
+    where.push(clause);
+    params.push(value);
+  };
+  add("agent = ?", filter.agent);
+  add("job = ?", filter.job);
+  add("status = ?", filter.status);
+  add("source = ?", filter.source);
+  add("started_at >= ?", filter.since);
+  add("started_at < ?", filter.until);
+
+  const sql =
+    `SELECT * FROM runs${where.length ? ` WHERE ${where.join(" AND ")}` : ""} ` +
+    `ORDER BY id DESC LIMIT ?`;
+  return store().prepare(sql).all(...params, filter.limit ?? 50) as RunRow[];
+}
+
+// --- Aggregates (for /metrics) ---
+
+// Chat replies and dispatches are one label per agent, not one per message
+const JOB_LABEL = `CASE WHEN source IN (${sourceList}) THEN job ELSE '(chat)' END`;
+
+export interface RunTotals {
+  agent: string;
+  job: string;
+  status: FinishedStatus;
+  runs: number;
+  cost_usd: number;
+  input_tokens: number;
+  output_tokens: number;
+  cache_read_tokens: number;
+  cache_write_tokens: number;
+}
+
+/** Finished runs per agent, job and status, with their cost and tokens. */
+export function runTotals(): RunTotals[] {
+  return store()
+    .prepare(
+      `SELECT agent, ${JOB_LABEL} AS job, status, COUNT(*) AS runs,
+         COALESCE(SUM(cost_usd), 0) AS cost_usd,
+         COALESCE(SUM(input_tokens), 0) AS input_tokens,
+         COALESCE(SUM(output_tokens), 0) AS output_tokens,
+         COALESCE(SUM(cache_read_tokens), 0) AS cache_read_tokens,
+         COALESCE(SUM(cache_write_tokens), 0) AS cache_write_tokens
+       FROM runs WHERE status != 'running'
+       GROUP BY 1, 2, 3 ORDER BY 1, 2, 3`
+    )
+    .all() as RunTotals[];
+}
+
+/** Per agent and job: how many finished runs took at most each of `bounds` seconds. */
+export function durationHistogram(
+  bounds: number[]
+): Array<{ agent: string; job: string; count: number; sum: number; buckets: number[] }> {
+  const columns = bounds.map((_, i) => `SUM(duration <= ?) AS b${i}`).join(", ");
+  const rows = store()
+    .prepare(
+      `SELECT agent, ${JOB_LABEL} AS job, COUNT(*) AS count, SUM(duration) AS sum, ${columns}
+       FROM runs WHERE status != 'running' AND duration IS NOT NULL
+       GROUP BY 1, 2 ORDER BY 1, 2`
+    )
+    .all(...bounds) as any[];
+  return rows.map((r) => ({
+    agent: r.agent,
+    job: r.job,
+    count: r.count,
+    sum: r.sum,
+    buckets: bounds.map((_, i) => r[`b${i}`]),
+  }));
+}
+
+/** When each agent/job last finished "ok" (or suppressed — it ran fine). */
+export function lastSuccesses(): Array<{ agent: string; job: string; finished_at: string }> {
+  return store()
+    .prepare(
+      `SELECT agent, ${JOB_LABEL} AS job, MAX(finished_at) AS finished_at
+       FROM runs WHERE status IN ('ok', 'suppressed') AND finished_at IS NOT NULL
+       GROUP BY 1, 2 ORDER BY 1, 2`
+    )
+    .all() as Array<{ agent: string; job: string; finished_at: string }>;
+}
+
+// --- Display ---
+export function statusEmoji(status?: string | null): string {
+  return status === "ok" ? "✅" :
+    status === "error" ? "❌" :
+    status === "timeout" ? "⏰" :
+    status === "suppressed" ? "⏭️" :
+    status === "cancelled" ? "🚫" :
+    status === "interrupted" ? "⏹️" :
+    status === "running" ? "▶️" : "⚪";
+}
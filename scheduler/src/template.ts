@@ -0,0 +1,325 @@
+/**
+ * Prompt templates — `{{...}}` placeholders in job prompts, filled in as
+ * each run starts.
+ *
+ *   {{date}} {{time}} {{datetime}}      now, in the job's `timezone` — a format
+ *                                        picks the parts: {{date:%A %d %B}}
+ *   {{agent}} {{job}}                    the agent's and job's names
+ *   {{run.number}} {{run.attempt}}       the job's nth run (counting this one), retry attempt
+ *   {{last.status}} {{last.output}}      the job's previous finished run
+ *   {{last.time}}                        when it finished (takes a format too)
+ *   {{upstream}}                         every upstream job's output (see pipeline.ts)
+ *   {{upstream:agent/job}}               one upstream job's output ({{upstream.status:…}})
+ *   {{file:notes/focus.md}}              a file in the agent's workdir
+ *   {{env:NAME}}                         an environment variable of the daemon
+ *
+ * `\{{` writes a literal "{{". Values are inserted as they are — never
+ * rendered again, and the prompt still reaches claude as one quoted
+ * argument, so nothing in them is run by a shell. A missing file or
+ * variable fails the run rather than sending claude a prompt with a hole.
+ * Environment values are kept out of run logs (see redactEnv).
+ */
+
+import { readFileSync, existsSync, statSync } from "fs";
+import { join, resolve, relative, isAbsolute } from "path";
+import { homedir } from "os";
+import { suggest } from "./schema.ts";
+import { jobSummary, runOutput } from "./store.ts";
+import { dependenciesOf, upstreamContext, latestOutput, type JobAfter } from "./pipeline.ts";
+
+// --- Types ---
+export interface TemplateJob {
+  agent: string;
+  job: string;
+  workdir: string; // as configured — "~/" is expanded here
+  timezone?: string; // IANA name, e.g. "Europe/Berlin" (default: the daemon's)
+  after?: JobAfter;
+}
+
+export interface TemplateRun {
+  attempt?: number;
+  now?: Date;
+  env?: Record<string, string>; // filled in with the {{env:…}} values inserted (see redactEnv)
+}
+
+export interface TemplateIssues {
+  errors: string[];
+  warnings: string[];
+}
+
+interface Placeholder {
+  text: string; // as written, e.g. "{{date:%Y}}"
+  name: string;
+  arg?: string;
+}
+
+type ArgRule = "none" | "optional" | "required";
+
+const VARIABLES: Record<string, ArgRule> = {
+  date: "optional",
+  time: "optional",
+  datetime: "optional",
+  agent: "none",
+  job: "none",
+  "run.number": "none",
+  "run.attempt": "none",
+  "last.status": "none",
+  "last.output": "none",
+  "last.time": "optional",
+  upstream: "optional",
+  "upstream.status": "required",
+  file: "required",
+  env: "required",
+};
+
+const DEFAULT_FORMATS: Record<string, string> = {
+  date: "%Y-%m-%d",
+  time: "%H:%M",
+  datetime: "%Y-%m-%d %H:%M",
+  "last.time": "%Y-%m-%d %H:%M",
+};
+
+// Same cap as upstream output in pipeline.ts, so one include can't swamp the prompt
+const MAX_INSERT_CHARS = 20_000;
+const MAX_FILE_BYTES = 100_000;
+
+const PLACEHOLDER_RE = /\\\{\{|\{\{\s*([\w.]+)\s*(?::([^}]*))?\}\}/g;
+
+function expandPath(p: string): string {
+  if (p.startsWith("~/")) return join(homedir(), p.slice(2));
+  return resolve(p);
+}
+
+// --- Dates ---
+const WEEKDAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+const MONTH_NAMES = [
+  "January", "February", "March", "April", "May", "June",
+  "July", "August", "September", "October", "November", "December",
+];
+const DIRECTIVES = "YymdHMSaAbBj%";
+
+/** Schema check for `timezone`. */
+export function checkTimezone(value: string): string | undefined {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return undefined;
+  } catch {
+    return `unknown timezone "${value}" (use an IANA name like "Europe/Berlin")`;
+  }
+}
+
+function checkFormat(format: string): string | undefined {
+  for (const m of format.matchAll(/%(.?)/g)) {
+    if (!DIRECTIVES.includes(m[1] || " ")) {
+      return `unknown date directive "%${m[1]}" (use ${[...DIRECTIVES].map((d) => `%${d}`).join(" ")})`;
+    }
+  }
+  return undefined;
+}
+
+/** strftime-style: %Y %y %m %d %H %M %S %a %A %b %B %j %% */
+export function formatDate(date: Date, format: string, timeZone?: string): string {
+  const parts: Record<string, number> = {};
+  const formatter = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+  });
+  for (const p of formatter.formatToParts(date)) {
+    if (p.type !== "literal") parts[p.type] = Number(p.value);
+  }
+  const { year, month, day, hour, minute, second } = parts;
+  const civil = Date.UTC(year, month - 1, day);
+  const weekday = new Date(civil).getUTCDay();
+  const yearDay = (civil - Date.UTC(year, 0, 1)) / 86_400_000 + 1;
+  const pad = (n: number, width = 2) => String(n).padStart(width, "0");
+
+  const values: Record<string, string> = {
+    Y: String(year),
+    y: pad(year % 100),
+    m: pad(month),
+    d: pad(day),
+    H: pad(hour),
+    M: pad(minute),
+    S: pad(second),
+    a: WEEKDAY_NAMES[weekday].slice(0, 3),
+    A: WEEKDAY_NAMES[weekday],
+    b: MONTH_NAMES[month - 1].slice(0, 3),
+    B: MONTH_NAMES[month - 1],
+    j: pad(yearDay, 3),
+    "%": "%",
+  };
+  return format.replace(/%(.?)/g, (all, d) => values[d] ?? all);
+}
+
+// --- Parsing ---
+function placeholders(template: string): Placeholder[] {
+  const found: Placeholder[] = [];
+  for (const m of template.matchAll(PLACEHOLDER_RE)) {
+    if (m[1]) found.push({ text: m[0], name: m[1], arg: m[2]?.trim() });
+  }
+  return found;
+}
+
+/** Whether the prompt places upstream output itself (so it isn't appended too). */
+export function usesUpstream(template: string): boolean {
+  return placeholders(template).some((p) => p.name.startsWith("upstream"));
+}
+
+function upstreamKey(agent: string, ref: string): string {
+  return ref.includes("/") ? ref : `${agent}/${ref}`;
+}
+
+/** The workdir file `path` refers to, or an error when it points outside it. */
+function workdirFile(workdir: string, path: string): { file?: string; error?: string } {
+  const root = expandPath(workdir);
+  const file = resolve(root, path);
+  const rel = relative(root, file);
+  if (isAbsolute(path) || rel.startsWith("..") || isAbsolute(rel)) {
+    return { error: `{{file:${path}}} must be a path inside the agent's workdir` };
+  }
+  return { file };
+}
+
+function cap(text: string): string {
+  return text.length > MAX_INSERT_CHARS ? `…${text.slice(-MAX_INSERT_CHARS)}` : text;
+}
+
+// --- Checking ---
+
+/**
+ * Problems with a job's prompt, for config validation. Unknown variables,
+ * bad formats and references outside the job's pipeline are errors; files
+ * and environment variables that don't exist yet are warnings, since they
+ * may by the time the job runs.
+ */
+export function checkTemplate(template: string, job: TemplateJob): TemplateIssues {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const upstreams = new Set(dependenciesOf(job.agent, job.after).map((d) => d.upstream));
+
+  for (const p of placeholders(template)) {
+    const rule = VARIABLES[p.name];
+    if (!rule) {
+      const hint = suggest(p.name, Object.keys(VARIABLES));
+      errors.push(`unknown placeholder ${p.text}` + (hint ? ` — did you mean {{${hint}}}?` : ""));
+      continue;
+    }
+    if (rule === "none" && p.arg !== undefined) {
+      errors.push(`${p.text}: {{${p.name}}} takes no argument`);
+      continue;
+    }
+    if (rule === "required" && !p.arg) {
+      errors.push(`${p.text} needs an argument, e.g. {{${p.name}:…}}`);
+      continue;
+    }
+
+    if (p.name in DEFAULT_FORMATS && p.arg) {
+      const problem = checkFormat(p.arg);
+      if (problem) errors.push(`${p.text}: ${problem}`);
+    } else if (p.name.startsWith("upstream")) {
+      if (!upstreams.size) {
+        warnings.push(`${p.text} is always empty — the job has no "after"`);
+      } else if (p.arg && !upstreams.has(upstreamKey(job.agent, p.arg))) {
+        errors.push(`${p.text}: "${p.arg}" is not one of the job's "after" jobs`);
+      }
+    } else if (p.name === "file") {
+      const { file, error } = workdirFile(job.workdir, p.arg!);
+      if (error) errors.push(error);
+      else if (!existsSync(file!)) warnings.push(`${p.text}: ${file} doesn't exist (yet)`);
+    } else if (p.name === "env" && process.env[p.arg!] === undefined) {
+      warnings.push(`${p.text}: $${p.arg} isn't set here — make sure the daemon has it`);
+    }
+  }
+
+  if (template.replace(PLACEHOLDER_RE, "").includes("{{")) {
+    errors.push(`unclosed or malformed "{{" — write \\{{ for a literal one`);
+  }
+  if (template.includes("$(")) {
+    warnings.push(`prompts aren't run through a shell, so $(…) stays as written — use {{date}} instead`);
+  }
+  return { errors, warnings };
+}
+
+// --- Rendering ---
+
+/**
+ * `text` with the `env` values a render inserted put back as their
+ * placeholders — for anything written to disk, since variables are
+ * often tokens. Longest values first, so one containing another is
+ * replaced whole.
+ */
+export function redactEnv(text: string, env: Record<string, string>): string {
+  return Object.entries(env)
+    .filter(([, value]) => value)
+    .sort(([, a], [, b]) => b.length - a.length)
+    .reduce((out, [name, value]) => out.replaceAll(value, `{{env:${name}}}`), text);
+}
+
+/** Fill in `template` for a run of `job`. Throws on a missing file or variable. */
+export function renderTemplate(template: string, job: TemplateJob, run: TemplateRun = {}): string {
+  const now = run.now ?? new Date();
+  const key = `${job.agent}/${job.job}`;
+  let summary: ReturnType<typeof jobSummary> | undefined;
+  const history = () => (summary ??= jobSummary(job.agent, job.job));
+
+  const lastOutput = (): string => {
+    const last = history().last;
+    return last ? cap(runOutput(last)) : "";
+  };
+
+  const value = (p: Placeholder): string => {
+    switch (p.name) {
+      case "date":
+      case "time":
+      case "datetime":
+        return formatDate(now, p.arg || DEFAULT_FORMATS[p.name], job.timezone);
+      case "agent":
+        return job.agent;
+      case "job":
+        return job.job;
+      case "run.number":
+        return String(history().runCount + 1);
+      case "run.attempt":
+        return String(run.attempt ?? 1);
+      case "last.status":
+        return history().last?.status ?? "";
+      case "last.output":
+        return lastOutput();
+      case "last.time": {
+        const finished = history().last?.finished_at;
+        return finished ? formatDate(new Date(finished), p.arg || DEFAULT_FORMATS[p.name], job.timezone) : "";
+      }
+      case "upstream":
+        return p.arg ? latestOutput(upstreamKey(job.agent, p.arg))?.output ?? "" : upstreamContext(key);
+      case "upstream.status":
+        return latestOutput(upstreamKey(job.agent, p.arg!))?.status ?? "";
+      case "file": {
+        const { file, error } = workdirFile(job.workdir, p.arg!);
+        if (error) throw new Error(error);
+        if (!existsSync(file!)) throw new Error(`${p.text}: ${file} doesn't exist`);
+        if (statSync(file!).size > MAX_FILE_BYTES) {
+          throw new Error(`${p.text}: ${file} is larger than ${MAX_FILE_BYTES / 1000} KB`);
+        }
+        return readFileSync(file!, "utf-8");
+      }
+      case "env": {
+        const v = process.env[p.arg!];
+        if (v === undefined) throw new Error(`${p.text}: $${p.arg} isn't set`);
+        if (run.env) run.env[p.arg!] = v;
+        return v;
+      }
+      default:
+        throw new Error(`unknown placeholder ${p.text}`);
+    }
+  };
+
+  return template.replace(PLACEHOLDER_RE, (all, name, arg) =>
+    name ? value({ text: all, name, arg: arg?.trim() }) : "{{"
+  );
+}
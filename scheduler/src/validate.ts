@@ -0,0 +1,27 @@
+#!/usr/bin/env bun
+/**
+ * Check config.json without starting the scheduler.
+ * Usage: bun run validate            (checks config.json)
+ *    or: bun run validate <file>     (checks another file, e.g. before copying it in)
+ */
+
+import { basename, resolve } from "path";
+import { readConfig, formatIssue, CONFIG_PATH } from "./config.ts";
+
+const path = process.argv[2] ? resolve(process.argv[2]) : CONFIG_PATH;
+const file = basename(path);
+const { config, errors, warnings } = readConfig(path);
+
+for (const err of errors) console.error(`❌ ${formatIssue(err, file)}`);
+for (const warning of warnings) console.warn(`⚠️  ${formatIssue(warning, file)}`);
+
+if (!config) {
+  console.error(`\n${file}: ${errors.length} error(s), ${warnings.length} warning(s)`);
+  process.exit(1);
+}
+
+const jobs = config.agents.reduce((n, a) => n + a.jobs.length, 0);
+console.log(
+  `✅ ${file} is valid — ${config.agents.length} agent(s), ${jobs} job(s)` +
+    (warnings.length ? `, ${warnings.length} warning(s)` : "")
+);
@@ -0,0 +1,143 @@
+/**
+ * Watchdog — noticing when things go quiet.
+ *
+ * Jobs like a heartbeat report success by staying silent, so a job that
+ * stops running at all looks the same as one that's fine. A job with
+ * `expectSuccessWithin` is overdue once that long has passed since its last
+ * ok (or suppressed) run; the daemon checks every minute and alerts once per
+ * lapse, and again when the job recovers.
+ *
+ * The daemon can't report its own death, so it also writes .heartbeat every
+ * 30s; `bun run status` (and `status --check`, for an outside cron) calls a
+ * scheduler stale when the file stops being refreshed.
+ */
+
+import { readFileSync, writeFileSync, rmSync } from "fs";
+import { join, resolve } from "path";
+import { lastSuccess } from "./store.ts";
+
+// --- Types ---
+export interface Overdue {
+  agent: string;
+  job: string;
+  window: number; // seconds
+  lastSuccess?: Date;
+  overdueFor: number; // seconds past the window
+}
+
+export interface Heartbeat {
+  pid: number;
+  startedAt: string;
+  at: string;
+}
+
+// --- Paths ---
+const ROOT = resolve(import.meta.dir, "..");
+export const HEARTBEAT_FILE = join(ROOT, ".heartbeat");
+
+export const HEARTBEAT_INTERVAL_MS = 30_000;
+export const DEADLINE_CHECK_MS = 60_000;
+// A heartbeat older than this means the daemon died or is wedged
+export const HEARTBEAT_STALE_MS = 3 * HEARTBEAT_INTERVAL_MS;
+
+/** "2h 10m", "45m 30s", "30s" — seconds only below an hour */
+export function formatSpan(seconds: number): string {
+  const s = Math.round(seconds);
+  if (s < 60) return `${s}s`;
+  const d = Math.floor(s / 86400);
+  const h = Math.floor((s % 86400) / 3600);
+  const m = Math.floor((s % 3600) / 60);
+  const sec = s < 3600 ? s % 60 : 0;
+  return [d && `${d}d`, h && `${h}h`, m && `${m}m`, sec && `${sec}s`].filter(Boolean).join(" ");
+}
+
+// --- Deadlines ---
+
+/**
+ * Jobs with `expectSuccessWithin` that haven't succeeded in time. A job that
+ * has never succeeded is measured from `since` (when the daemon started).
+ */
+export function overdueJobs(
+  agents: Array<{ name: string; jobs: Array<{ name: string; expectSuccessWithin?: number }> }>,
+  since: Date,
+  now = new Date(),
+  skip: (agent: string, job: string) => boolean = () => false
+): Overdue[] {
+  const overdue: Overdue[] = [];
+  for (const agent of agents) {
+    for (const job of agent.jobs) {
+      const window = job.expectSuccessWithin;
+      if (!window || skip(agent.name, job.name)) continue;
+      const last = lastSuccess(agent.name, job.name);
+      const elapsed = (now.getTime() - (last ?? since).getTime()) / 1000;
+      if (elapsed > window) {
+        overdue.push({ agent: agent.name, job: job.name, window, lastSuccess: last, overdueFor: elapsed - window });
+      }
+    }
+  }
+  return overdue;
+}
+
+// Jobs the daemon has alerted about, until they succeed again ("agent/job" →)
+const alerted = new Map<string, Overdue>();
+
+/**
+ * Compare the overdue jobs against those already alerted about: returns the
+ * newly overdue ones and the ones that have succeeded since. Jobs that
+ * dropped out for another reason (paused, removed) are forgotten quietly.
+ */
+export function trackOverdue(overdue: Overdue[]): { lapsed: Overdue[]; recovered: Overdue[] } {
+  const current = new Set(overdue.map((o) => `${o.agent}/${o.job}`));
+  const lapsed = overdue.filter((o) => !alerted.has(`${o.agent}/${o.job}`));
+  const recovered: Overdue[] = [];
+
+  for (const [key, o] of alerted) {
+    if (current.has(key)) continue;
+    alerted.delete(key);
+    const last = lastSuccess(o.agent, o.job);
+    if (last && (!o.lastSuccess || last > o.lastSuccess)) recovered.push(o);
+  }
+  for (const o of lapsed) alerted.set(`${o.agent}/${o.job}`, o);
+  return { lapsed, recovered };
+}
+
+/** Jobs currently overdue, as last checked by the daemon (for /metrics). */
+export function overdueNow(): Overdue[] {
+  return [...alerted.values()];
+}
+
+export function describeOverdue(o: Overdue): string {
+  const last = o.lastSuccess ? `last success ${o.lastSuccess.toLocaleString()}` : "no success yet";
+  return (
+    `⏰ ${o.agent}/${o.job} hasn't succeeded in ${formatSpan(Math.ceil(o.window + o.overdueFor))} ` +
+    `(expected within ${formatSpan(o.window)}) — ${last}`
+  );
+}
+
+// --- Heartbeat ---
+export function writeHeartbeat(startedAt: Date) {
+  const beat: Heartbeat = { pid: process.pid, startedAt: startedAt.toISOString(), at: new Date().toISOString() };
+  try {
+    writeFileSync(HEARTBEAT_FILE, JSON.stringify(beat));
+  } catch (err) {
+    console.error("Heartbeat write error:", err);
+  }
+}
+
+/** On a clean shutdown — a missing file means "stopped", a stale one "died". */
+export function clearHeartbeat() {
+  rmSync(HEARTBEAT_FILE, { force: true });
+}
+
+export function readHeartbeat(): Heartbeat | undefined {
+  try {
+    return JSON.parse(readFileSync(HEARTBEAT_FILE, "utf-8"));
+  } catch {
+    return undefined;
+  }
+}
+
+/** How long ago the heartbeat was written, in ms (undefined when there is none). */
+export function heartbeatAge(beat: Heartbeat | undefined, now = Date.now()): number | undefined {
+  return beat ? now - new Date(beat.at).getTime() : undefined;
+}
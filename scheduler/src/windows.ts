@@ -0,0 +1,94 @@
+/**
+ * Time windows — maintenance windows that hold back scheduled runs, and
+ * quiet hours that hold back notifications.
+ *
+ * A window is "HH:MM" to "HH:MM" in the daemon's local time (like cron
+ * schedules), optionally on some weekdays only. One that ends before it
+ * starts runs past midnight and belongs to the day it starts on; one that
+ * ends when it starts lasts the whole day.
+ */
+
+// --- Types ---
+export type Weekday = "sun" | "mon" | "tue" | "wed" | "thu" | "fri" | "sat";
+
+export interface TimeWindow {
+  start: string; // "HH:MM"
+  end: string;
+  days?: Weekday[]; // the days the window starts on (default: every day)
+}
+
+export type MaintenanceAction = "skip" | "defer";
+
+export interface MaintenanceWindow extends TimeWindow {
+  name?: string;
+  targets?: string[]; // "agent" or "agent/job" (default: every job)
+  action?: MaintenanceAction; // "skip" (default) drops runs, "defer" runs them once the window ends
+}
+
+export type QuietHours = TimeWindow;
+
+export const WEEKDAYS: Weekday[] = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+const TIME_RE = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+/** Schema check for a window's start/end. */
+export function checkTime(value: string): string | undefined {
+  return TIME_RE.test(value) ? undefined : `"${value}" must be a 24-hour time like "02:30"`;
+}
+
+function minutesOf(time: string): number {
+  const [h, m] = time.split(":").map(Number);
+  return h * 60 + m;
+}
+
+// --- Matching ---
+
+/** When the occurrence of `window` covering `now` ends — undefined when `now` is outside it. */
+export function windowEnd(window: TimeWindow, now = new Date()): Date | undefined {
+  const start = minutesOf(window.start);
+  const end = minutesOf(window.end);
+  const length = end > start ? end - start : end + 24 * 60 - start;
+
+  // An occurrence covering now started today or, past midnight, yesterday
+  for (const daysAgo of [0, 1]) {
+    const from = new Date(now);
+    from.setDate(from.getDate() - daysAgo);
+    if (window.days && !window.days.includes(WEEKDAYS[from.getDay()])) continue;
+    from.setHours(0, start, 0, 0);
+    const to = new Date(from);
+    to.setMinutes(to.getMinutes() + length);
+    if (now >= from && now < to) return to;
+  }
+  return undefined;
+}
+
+export function targetMatches(targets: string[] | undefined, agent: string, job: string): boolean {
+  if (!targets?.length) return true;
+  return targets.some((t) => t === "*" || t === agent || t === `${agent}/${job}`);
+}
+
+/** The maintenance window `agent/job` is in right now, if any. */
+export function activeMaintenance(
+  windows: MaintenanceWindow[] | undefined,
+  agent: string,
+  job: string,
+  now = new Date()
+): { window: MaintenanceWindow; until: Date } | undefined {
+  for (const window of windows ?? []) {
+    if (!targetMatches(window.targets, agent, job)) continue;
+    const until = windowEnd(window, now);
+    if (until) return { window, until };
+  }
+  return undefined;
+}
+
+/** When the current quiet hours end — undefined when they aren't on. */
+export function quietUntil(quiet: QuietHours | undefined, now = new Date()): Date | undefined {
+  return quiet ? windowEnd(quiet, now) : undefined;
+}
+
+/** "backup (02:00–04:00 sat, sun)" */
+export function describeWindow(window: TimeWindow & { name?: string }, fallback = "maintenance"): string {
+  const days = window.days?.length ? ` ${window.days.join(", ")}` : "";
+  return `${window.name || fallback} (${window.start}–${window.end}${days})`;
+}
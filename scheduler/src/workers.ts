@@ -0,0 +1,259 @@
+/**
+ * Chat workers — run chat-routed prompts as async child processes.
+ *
+ * Listeners hand each incoming message to `startChatJob` and get a job
+ * handle back immediately. The run then waits in the agent's queue (see
+ * queue.ts) and for one of a bounded number of worker slots, so a long
+ * reply to one agent never blocks messages to other agents or cron ticks.
+ */
+
+import { join, resolve } from "path";
+import { homedir } from "os";
+import { runCommand, describeFailure, type CommandResult } from "./process.ts";
+import { submit, pending, SHUTDOWN } from "./queue.ts";
+import { resumeArgs, recordSession, CHAT_SESSION } from "./sessions.ts";
+import { toRunResult, parseStreamResult, describeEvent, type RunResult } from "./result.ts";
+import { startRun, finishRun, type FinishedStatus } from "./store.ts";
+
+// --- Types ---
+export interface AgentInfo {
+  name: string;
+  workdir: string;
+  allowedTools?: string;
+  timeout?: number;
+  killGrace?: number;
+}
+
+export interface ChatJob {
+  id: number;
+  agent: string;
+  session: string; // named session the reply continues (see sessions.ts)
+  source: "telegram" | "discord";
+  state: "queued" | "running" | "done" | "failed";
+  ahead: number; // runs queued for the agent before this one
+  queuedAt: string;
+}
+
+export interface ChatJobHandlers {
+  onStart?: (job: ChatJob) => Promise<void>;
+  onProgress?: (job: ChatJob, line: string) => void; // each stream-json line (see live.ts)
+  onDone: (job: ChatJob, response: string) => Promise<void>;
+  onError: (job: ChatJob, message: string) => Promise<void>;
+}
+
+export const DEFAULT_CHAT_WORKERS = 2;
+
+// --- Worker slots ---
+let maxWorkers = DEFAULT_CHAT_WORKERS;
+let activeWorkers = 0;
+const slotWaiters: Array<() => void> = [];
+let nextJobId = 1;
+
+export function setChatWorkers(n: number) {
+  maxWorkers = Math.max(1, n);
+}
+
+/** Resolves true once a slot is held, or false if `signal` aborts first. */
+function acquireSlot(signal: AbortSignal): Promise<boolean> {
+  if (signal.aborted) return Promise.resolve(false);
+  if (activeWorkers < maxWorkers) {
+    activeWorkers++;
+    return Promise.resolve(true);
+  }
+  return new Promise((resolve) => {
+    const onAbort = () => {
+      slotWaiters.splice(slotWaiters.indexOf(take), 1);
+      resolve(false);
+    };
+    const take = () => {
+      signal.removeEventListener("abort", onAbort);
+      resolve(true);
+    };
+    slotWaiters.push(take);
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+function releaseSlot() {
+  const next = slotWaiters.shift();
+  if (next) next();
+  else activeWorkers--;
+}
+
+function expandPath(p: string): string {
+  if (p.startsWith("~/")) return join(homedir(), p.slice(2));
+  return resolve(p);
+}
+
+// --- Chat jobs ---
+
+/**
+ * Queue `prompt` for `agent`'s named `session`. Returns at once;
+ * `handlers` are called as the job starts and finishes. A function
+ * `prompt` is built when the job starts (e.g. downloading attachments,
+ * see inbox.ts) — if it throws, the job fails with its message.
+ */
+export function startChatJob(
+  agent: AgentInfo,
+  source: ChatJob["source"],
+  session: string,
+  prompt: string | (() => Promise<string>),
+  handlers: ChatJobHandlers
+): ChatJob {
+  const job: ChatJob = {
+    id: nextJobId++,
+    agent: agent.name,
+    session,
+    source,
+    state: "queued",
+    ahead: pending(agent.name),
+    queuedAt: new Date().toISOString(),
+  };
+
+  const timeoutSec = agent.timeout || 120;
+
+  submit(agent.name, {
+    label: `reply #${job.id}`,
+    job: `reply #${job.id}`,
+    source,
+    run: async (signal) => {
+      // A cancel or shutdown can land before claude is spawned — at each
+      // await up to then, stop instead of carrying on
+      const abandoned = async () => {
+        if (!signal.aborted) return false;
+        job.state = "failed";
+        await handlers.onError(
+          job,
+          signal.reason === SHUTDOWN ? "Interrupted — the scheduler shut down" : "Cancelled before it started"
+        );
+        return true;
+      };
+
+      if (!(await acquireSlot(signal))) {
+        await abandoned();
+        return;
+      }
+      try {
+        job.state = "running";
+        await handlers.onStart?.(job);
+        if (await abandoned()) return;
+        let text: string;
+        try {
+          text = typeof prompt === "string" ? prompt : await prompt();
+        } catch (err: any) {
+          job.state = "failed";
+          await handlers.onError(job, err.message);
+          return;
+        }
+        if (await abandoned()) return;
+        const runId = startRun({ agent: agent.name, job: `reply #${job.id}`, source, session });
+        const startTime = Date.now();
+
+        // Resolve the session when the run starts — an earlier reply may
+        // have moved it on while this one waited in the queue
+        const args = [
+          "-p",
+          text,
+          "--output-format",
+          "stream-json",
+          "--verbose",
+          ...resumeArgs(agent.name, session),
+        ];
+        if (agent.allowedTools) {
+          args.push("--allowedTools", agent.allowedTools);
+        }
+        const cmd = `claude ${args
+          .map((a) => `'${a.replace(/'/g, "'\\''")}'`)
+          .join(" ")}`;
+
+        const result = await runCommand(cmd, {
+          cwd: expandPath(agent.workdir),
+          timeoutMs: timeoutSec * 1000,
+          graceMs: agent.killGrace !== undefined ? agent.killGrace * 1000 : undefined,
+          signal,
+          onLine: handlers.onProgress && ((line) => handlers.onProgress!(job, line)),
+        });
+
+        const reply = parseStreamResult(result.stdout);
+        if (reply?.sessionId) recordSession(agent.name, session, reply.sessionId);
+        // Without a result event, the readable events stand in for the raw stream
+        const readable = { ...result, stdout: result.stdout.split("\n").flatMap(describeEvent).join("\n") };
+        const status = finishCommandRun(runId, startTime, readable, reply, timeoutSec, signal);
+
+        if (status === "interrupted") {
+          job.state = "failed";
+          await handlers.onError(job, "Interrupted — the scheduler shut down");
+        } else if (result.timedOut || result.cancelled || result.exitCode !== 0) {
+          job.state = "failed";
+          await handlers.onError(job, describeFailure(readable, timeoutSec));
+        } else if (reply?.isError) {
+          job.state = "failed";
+          await handlers.onError(job, reply.text || reply.subtype);
+        } else {
+          job.state = "done";
+          await handlers.onDone(job, (reply ? reply.text : readable.stdout) || "(empty response)");
+        }
+      } finally {
+        releaseSlot();
+      }
+    },
+  });
+
+  return job;
+}
+
+/** claude's `--output-format json` result, if stdout is one. */
+export function parseReply(stdout: string) {
+  try {
+    return toRunResult(JSON.parse(stdout));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Complete the run-store row of a chat reply or dispatch. `signal` tells a
+ * shutdown ("interrupted") from a cancel. Returns the recorded status.
+ */
+export function finishCommandRun(
+  runId: number,
+  startTime: number,
+  result: CommandResult,
+  reply: RunResult | undefined,
+  timeoutSec: number,
+  signal?: AbortSignal
+): FinishedStatus {
+  const failed = result.exitCode !== 0 || !!reply?.isError;
+  const status: FinishedStatus = result.cancelled
+    ? signal?.reason === SHUTDOWN
+      ? "interrupted"
+      : "cancelled"
+    : result.timedOut
+      ? "timeout"
+      : failed
+        ? "error"
+        : "ok";
+  finishRun(runId, {
+    status,
+    duration: (Date.now() - startTime) / 1000,
+    exitCode: result.exitCode ?? undefined,
+    stoppedBy: result.stoppedBy,
+    output: reply ? reply.text : result.stdout,
+    error:
+      status !== "error"
+        ? undefined
+        : reply?.isError
+          ? reply.text || reply.subtype
+          : describeFailure(result, timeoutSec),
+    result: reply,
+  });
+  return status;
+}
+
+/** One-line acknowledgement for a freshly queued chat job. */
+export function describeAck(job: ChatJob): string {
+  const who = job.session === CHAT_SESSION ? job.agent : `${job.agent}#${job.session}`;
+  return job.ahead === 0
+    ? `📥 #${job.id} — ${who} is on it`
+    : `📥 #${job.id} queued — ${who} has ${job.ahead} run${job.ahead === 1 ? "" : "s"} ahead`;
+}